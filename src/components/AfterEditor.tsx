@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Pencil } from "lucide-react";
+
+// Lets a reviewer correct a suggested value before applying it. Rich text is
+// edited with its markup, as stored.
+export default function AfterEditor({
+  value,
+  onSave,
+  disabled = false,
+}: {
+  value: string;
+  onSave: (value: string) => void;
+  disabled?: boolean;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft === null) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={disabled}
+        onClick={() => setDraft(value)}
+        className="h-7 px-2 text-xs text-gray-600 hover:text-blue-600"
+      >
+        <Pencil className="mr-1 h-3 w-3" />
+        Edit After
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        aria-label="Edited After value"
+        rows={Math.min(12, Math.max(3, draft.split("\n").length))}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        className="rounded-lg border-gray-300 font-mono text-sm"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => {
+            if (draft !== value) onSave(draft);
+            setDraft(null);
+          }}
+          className="rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+        >
+          Save & revalidate
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDraft(null)}
+          className="rounded-lg text-gray-600"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
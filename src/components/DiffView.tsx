@@ -0,0 +1,97 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { ChevronsUpDown } from "lucide-react";
+import {
+  type DiffLayout,
+  type DiffPart,
+  type DiffRow,
+  collapseRows,
+  diffRows,
+  diffText,
+  sideParts,
+} from "@/lib/diff";
+
+const PART_CLASSES = {
+  equal: "",
+  delete: "rounded-sm bg-red-100 text-red-700 line-through decoration-red-300",
+  insert: "rounded-sm bg-green-100 text-green-800",
+};
+
+const Parts = ({ parts }: { parts: DiffPart[] }) => (
+  <p className="min-h-[1.25rem] text-sm font-mono whitespace-pre-wrap break-words text-gray-700">
+    {parts.map((part, index) => (
+      <span key={index} className={PART_CLASSES[part.op]}>
+        {part.text}
+      </span>
+    ))}
+  </p>
+);
+
+const Row = ({ row, layout }: { row: DiffRow; layout: DiffLayout }) =>
+  layout === "unified" ? (
+    <Parts parts={row.parts} />
+  ) : (
+    <>
+      <Parts parts={sideParts(row.parts, "before")} />
+      <Parts parts={sideParts(row.parts, "after")} />
+    </>
+  );
+
+// Before/after diff of a field. Unchanged paragraphs away from the edits are
+// folded and can be expanded one run at a time.
+export default function DiffView({
+  before,
+  after,
+  layout,
+  className = "",
+}: {
+  before: string;
+  after: string;
+  layout: DiffLayout;
+  className?: string;
+}) {
+  const blocks = useMemo(
+    () => collapseRows(diffRows(diffText(before, after))),
+    [before, after]
+  );
+  const [expanded, setExpanded] = useState<number[]>([]);
+
+  // Folded runs are numbered per diff, so a new diff starts folded again.
+  useEffect(() => setExpanded([]), [before, after]);
+
+  return (
+    <div
+      className={`rounded-lg border p-3 ${
+        layout === "split" ? "grid grid-cols-2 gap-x-4 gap-y-1" : "space-y-1"
+      } ${className}`}
+    >
+      {layout === "split" && (
+        <>
+          <Label className="text-xs font-semibold text-gray-500">Before</Label>
+          <Label className="text-xs font-semibold text-gray-500">After</Label>
+        </>
+      )}
+      {blocks.map((block, index) =>
+        block.collapsed && !expanded.includes(index) ? (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setExpanded((prev) => [...prev, index])}
+            className={`flex items-center gap-1 rounded-md bg-gray-100 px-2 py-1 text-xs text-gray-500 hover:text-blue-600 ${
+              layout === "split" ? "col-span-2" : ""
+            }`}
+          >
+            <ChevronsUpDown className="h-3 w-3" />
+            {block.rows.length} unchanged paragraphs
+          </button>
+        ) : (
+          <Fragment key={index}>
+            {block.rows.map((row, rowIndex) => (
+              <Row key={rowIndex} row={row} layout={layout} />
+            ))}
+          </Fragment>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarIcon, ChevronRight, Filter, X } from "lucide-react";
+import {
+  type DateBound,
+  type EntryFilterOptions,
+  type EntryFilters,
+  type PublishStatus,
+  DEFAULT_ENTRY_FILTERS,
+  countEntryFilters,
+} from "@/lib/entry-filters";
+
+// Radix Select items cannot have an empty value.
+const ANY = "any";
+
+const DATE_BOUNDS: { bound: DateBound; label: string }[] = [
+  { bound: "createdAfter", label: "Created after" },
+  { bound: "createdBefore", label: "Created before" },
+  { bound: "updatedAfter", label: "Updated after" },
+  { bound: "updatedBefore", label: "Updated before" },
+];
+
+const OptionSelect = ({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: { uid: string; name: string }[];
+  onChange: (value: string) => void;
+}) => (
+  <div className="space-y-1">
+    <Label className="text-xs font-semibold text-gray-600">{label}</Label>
+    <Select
+      value={value || ANY}
+      onValueChange={(next) => onChange(next === ANY ? "" : next)}
+    >
+      <SelectTrigger className="h-9 rounded-lg border-gray-300 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.uid} value={option.uid}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const DatePicker = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value?: Date;
+  onChange: (date?: Date) => void;
+}) => (
+  <div className="space-y-1">
+    <Label className="text-xs font-semibold text-gray-600">{label}</Label>
+    <div className="flex gap-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={`h-9 flex-1 justify-start rounded-lg border-gray-300 px-2 text-sm font-normal ${
+              value ? "" : "text-muted-foreground"
+            }`}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PP") : "Any date"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-auto p-0">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={onChange}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={`Clear ${label.toLowerCase()}`}
+          onClick={() => onChange(undefined)}
+          className="h-9 w-9 rounded-lg text-gray-500"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
+// Filters are edited as a draft and only sent to `/entries` on "Apply", so
+// typing a tag does not reload the entry list on every key stroke.
+export default function EntryFilterPanel({
+  filters,
+  options,
+  onApply,
+}: {
+  filters: EntryFilters;
+  options: EntryFilterOptions;
+  onApply: (filters: EntryFilters) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(filters);
+  const [tagInput, setTagInput] = useState("");
+  const activeCount = countEntryFilters(filters);
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const update = (patch: Partial<EntryFilters>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim();
+    if (trimmed && !draft.tags.includes(trimmed)) {
+      update({ tags: [...draft.tags, trimmed] });
+    }
+    setTagInput("");
+  };
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="rounded-lg border border-gray-200"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-sm font-semibold text-gray-700 hover:text-blue-600">
+        <ChevronRight
+          className={`h-4 w-4 transition-transform ${open ? "rotate-90" : ""}`}
+        />
+        <Filter className="h-4 w-4" />
+        Filter entries
+        {activeCount > 0 && (
+          <Badge
+            variant="outline"
+            className="ml-auto rounded-full text-blue-700 border-blue-200 bg-blue-50"
+          >
+            {activeCount} active
+          </Badge>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 border-t border-gray-200 p-3">
+        <div className="space-y-1">
+          <Label
+            htmlFor="filter-tags"
+            className="text-xs font-semibold text-gray-600"
+          >
+            Tags (any of)
+          </Label>
+          <Input
+            id="filter-tags"
+            list="filter-tag-options"
+            placeholder="Type a tag and press Enter"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === ",") {
+                e.preventDefault();
+                addTag(tagInput);
+              }
+            }}
+            className="h-9 rounded-lg border-gray-300 text-sm"
+          />
+          <datalist id="filter-tag-options">
+            {options.tags.map((tag) => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+          {draft.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 pt-1">
+              {draft.tags.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="rounded-full text-blue-700 border-blue-200 bg-blue-50"
+                >
+                  {tag}
+                  <button
+                    type="button"
+                    aria-label={`Remove tag ${tag}`}
+                    onClick={() =>
+                      update({ tags: draft.tags.filter((t) => t !== tag) })
+                    }
+                    className="ml-1 hover:text-red-600"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <OptionSelect
+            label="Environment"
+            value={draft.environment}
+            options={options.environments}
+            onChange={(environment) => update({ environment })}
+          />
+          <div className="space-y-1">
+            <Label className="text-xs font-semibold text-gray-600">
+              Publish status
+            </Label>
+            <Select
+              value={draft.publishStatus}
+              disabled={!draft.environment}
+              onValueChange={(value) =>
+                update({ publishStatus: value as PublishStatus })
+              }
+            >
+              <SelectTrigger className="h-9 rounded-lg border-gray-300 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="published">Published</SelectItem>
+                <SelectItem value="unpublished">Not published</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {DATE_BOUNDS.map(({ bound, label }) => (
+            <DatePicker
+              key={bound}
+              label={label}
+              value={draft.dates[bound]}
+              onChange={(date) =>
+                update({ dates: { ...draft.dates, [bound]: date } })
+              }
+            />
+          ))}
+          <OptionSelect
+            label="Workflow stage"
+            value={draft.workflowStage}
+            options={options.workflowStages}
+            onChange={(workflowStage) => update({ workflowStage })}
+          />
+          <OptionSelect
+            label="Last edited by"
+            value={draft.updatedBy}
+            options={options.editors}
+            onChange={(updatedBy) => update({ updatedBy })}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onApply(DEFAULT_ENTRY_FILTERS)}
+            className="rounded-lg text-gray-600"
+          >
+            Reset
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              // A tag still in the input counts as added.
+              const tag = tagInput.trim();
+              setTagInput("");
+              onApply(
+                tag && !draft.tags.includes(tag)
+                  ? { ...draft, tags: [...draft.tags, tag] }
+                  : draft
+              );
+            }}
+            className="rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Apply filters
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,190 @@
+import { useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ClipboardList, Loader2, Upload } from "lucide-react";
+import {
+  type EntryListItems,
+  type EntryListResolution,
+  type ResolvedEntry,
+  parseEntryList,
+} from "@/lib/entry-list";
+
+const ReportList = ({
+  title,
+  items,
+  className,
+}: {
+  title: string;
+  items: string[];
+  className: string;
+}) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className={`rounded-lg border p-2 space-y-1 ${className}`}>
+      <p className="text-xs font-semibold">
+        {title} ({items.length})
+      </p>
+      <ul className="max-h-24 overflow-y-auto text-xs font-mono space-y-0.5">
+        {items.map((item) => (
+          <li key={item} className="break-all">
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// Pasted or uploaded UID/URL lists, e.g. an SEO audit export, resolved to
+// entries of the selected content types.
+export default function EntryListImport({
+  onResolve,
+  onSelect,
+}: {
+  onResolve: (items: EntryListItems) => Promise<EntryListResolution | null>;
+  onSelect: (entries: ResolvedEntry[]) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [resolving, setResolving] = useState(false);
+  const [result, setResult] = useState<EntryListResolution | null>(null);
+  const items = parseEntryList(text);
+  const itemCount = items.uids.length + items.urls.length;
+
+  const handleResolve = async () => {
+    setResolving(true);
+    try {
+      const resolution = await onResolve(items);
+      if (resolution) setResult(resolution);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setText("");
+      setResult(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="rounded-lg border-gray-300 text-gray-600 hover:text-blue-600"
+        >
+          <ClipboardList className="mr-1 h-4 w-4" />
+          Paste list
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Select entries from a list</DialogTitle>
+          <DialogDescription>
+            Paste entry UIDs or page URLs, one per line, or upload a CSV/TXT
+            export.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          rows={8}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setResult(null);
+          }}
+          placeholder={"blt0123456789abcdef\nhttps://www.example.com/blog/post"}
+          className="rounded-lg border-gray-300 font-mono text-sm"
+        />
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            className="rounded-lg border-dashed border-gray-300 text-gray-600 hover:text-blue-600"
+          >
+            <Upload className="mr-1 h-4 w-4" />
+            Upload file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) {
+                setText(await file.text());
+                setResult(null);
+              }
+            }}
+          />
+          {items.uids.length} UIDs, {items.urls.length} URLs
+          {items.ignored.length > 0 &&
+            `, ${items.ignored.length} other values ignored`}
+        </div>
+        {result && (
+          <div className="space-y-2">
+            <Badge
+              variant="outline"
+              className="rounded-full text-green-700 border-green-200 bg-green-50"
+            >
+              {result.resolved.length} entries found
+            </Badge>
+            <ReportList
+              title="Not found"
+              items={result.unknown}
+              className="border-red-200 bg-red-50 text-red-700"
+            />
+            <ReportList
+              title="In other content types (not selected)"
+              items={result.otherContentType.map(
+                (entry) => `${entry.input} → ${entry.contentTypeUid}`
+              )}
+              className="border-amber-200 bg-amber-50 text-amber-800"
+            />
+          </div>
+        )}
+        <DialogFooter>
+          {result ? (
+            <Button
+              disabled={result.resolved.length === 0}
+              onClick={() => {
+                onSelect(result.resolved);
+                handleOpenChange(false);
+              }}
+              className="rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Select {result.resolved.length} entries
+            </Button>
+          ) : (
+            <Button
+              disabled={itemCount === 0 || resolving}
+              onClick={handleResolve}
+              className="rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+            >
+              {resolving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Resolve {itemCount > 0 ? itemCount : ""} items
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
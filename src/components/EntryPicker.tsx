@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Search } from "lucide-react";
+
+export interface PickerEntry {
+  uid: string;
+  title: string;
+  contentTypeUid?: string;
+}
+
+const ROW_HEIGHT = 44;
+const VIEWPORT_HEIGHT = 240;
+const OVERSCAN = 6;
+const SEARCH_DELAY = 300;
+
+// Entry list for content types with thousands of entries. Only the rows in
+// view are rendered, the next page is requested when the list is scrolled
+// near its end, and "all matching" selects every entry the search and
+// filters match on the server, including pages that were never loaded.
+export default function EntryPicker({
+  entries,
+  total,
+  loading,
+  noun,
+  query,
+  onQueryChange,
+  onLoadMore,
+  allMatching,
+  onAllMatchingChange,
+  selectedCount,
+  isSelected,
+  onToggle,
+  onToggleLoaded,
+  describeEntry,
+  toolbar,
+}: {
+  entries: PickerEntry[];
+  total: number;
+  loading: boolean;
+  noun: string;
+  query: string;
+  onQueryChange: (query: string) => void;
+  onLoadMore: () => void;
+  allMatching: boolean;
+  onAllMatchingChange: (allMatching: boolean) => void;
+  selectedCount: number;
+  isSelected: (uid: string) => boolean;
+  onToggle: (uid: string, checked: boolean) => void;
+  onToggleLoaded: (checked: boolean) => void;
+  describeEntry?: (entry: PickerEntry) => string | undefined;
+  // Extra actions shown next to the search box.
+  toolbar?: React.ReactNode;
+}) {
+  const [search, setSearch] = useState(query);
+  const [scrollTop, setScrollTop] = useState(0);
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>();
+  // The last query sent up, to tell our own updates from outside ones such as
+  // a reset.
+  const sentQuery = useRef(query);
+  const hasMore = entries.length < total;
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(
+    entries.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const loadedSelected = entries.filter((entry) => isSelected(entry.uid));
+  const loadedState =
+    entries.length > 0 && loadedSelected.length === entries.length
+      ? true
+      : loadedSelected.length > 0
+      ? "indeterminate"
+      : false;
+
+  useEffect(() => {
+    if (query === sentQuery.current) return;
+    sentQuery.current = query;
+    clearTimeout(searchTimer.current);
+    setSearch(query);
+  }, [query]);
+
+  useEffect(() => () => clearTimeout(searchTimer.current), []);
+
+  const handleSearch = (value: string) => {
+    setSearch(value);
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => {
+      sentQuery.current = value;
+      onQueryChange(value);
+    }, SEARCH_DELAY);
+  };
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const target = event.currentTarget;
+    setScrollTop(target.scrollTop);
+    const nearEnd =
+      target.scrollTop + target.clientHeight >
+      target.scrollHeight - ROW_HEIGHT * OVERSCAN;
+    if (nearEnd && hasMore && !loading) onLoadMore();
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-semibold text-gray-700">
+        Select {noun.charAt(0).toUpperCase() + noun.slice(1)} (
+        {allMatching ? "all matching" : selectedCount} / {total} selected)
+      </Label>
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            aria-label={`Search ${noun} by title or UID`}
+            placeholder="Search by title or UID..."
+            value={search}
+            onChange={(e) => handleSearch(e.target.value)}
+            className="rounded-lg border-gray-300 pl-9 text-sm"
+          />
+        </div>
+        {toolbar}
+      </div>
+      <div className="border border-gray-300 rounded-lg overflow-hidden">
+        <div className="flex items-center justify-between gap-2 p-3 border-b border-gray-200 bg-gray-100">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="select-loaded"
+              className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600 data-[state=indeterminate]:bg-blue-100"
+              checked={loadedState}
+              onCheckedChange={(checked) => onToggleLoaded(checked === true)}
+            />
+            <Label
+              htmlFor="select-loaded"
+              className="font-semibold text-sm text-gray-700"
+            >
+              {loadedState === true ? "Deselect" : "Select"} {entries.length}{" "}
+              shown
+            </Label>
+          </div>
+          {total > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() => onAllMatchingChange(!allMatching)}
+              className="h-auto p-0 text-xs text-blue-600"
+            >
+              {allMatching ? "Clear selection" : `Select all ${total} matching`}
+            </Button>
+          )}
+        </div>
+        {allMatching && (
+          <p className="border-b border-blue-100 bg-blue-50 px-3 py-2 text-xs text-blue-700">
+            Every {noun.replace(/s$/, "")} matching the search and filters is
+            selected, including ones not loaded yet. Untick rows to leave them
+            out.
+          </p>
+        )}
+        <div
+          className="overflow-y-auto"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={handleScroll}
+        >
+          <div
+            className="relative p-1"
+            style={{ height: entries.length * ROW_HEIGHT + 8 }}
+          >
+            {entries.slice(first, last).map((entry, offset) => {
+              const id = `entry-${entry.uid}`;
+              const detail = describeEntry?.(entry);
+              return (
+                <div
+                  key={entry.uid}
+                  className="absolute inset-x-1 flex items-center space-x-2 px-2 hover:bg-gray-100 transition-colors duration-200 rounded-md"
+                  style={{
+                    top: (first + offset) * ROW_HEIGHT + 4,
+                    height: ROW_HEIGHT,
+                  }}
+                >
+                  <Checkbox
+                    id={id}
+                    className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                    checked={isSelected(entry.uid)}
+                    onCheckedChange={(checked) =>
+                      onToggle(entry.uid, Boolean(checked))
+                    }
+                  />
+                  <Label
+                    htmlFor={id}
+                    className="font-normal text-sm w-full cursor-pointer truncate text-gray-600"
+                  >
+                    {entry.title}
+                    {detail && (
+                      <span className="ml-2 text-xs text-gray-400">
+                        {detail}
+                      </span>
+                    )}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+          {loading && (
+            <div className="flex justify-center py-2 text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+          )}
+          {!loading && entries.length === 0 && (
+            <p className="p-3 text-sm text-gray-500">No {noun} found.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronRight, ShieldOff } from "lucide-react";
+import {
+  type Exclusions,
+  countExclusions,
+  validateExclusionPattern,
+} from "@/lib/exclusions";
+
+export default function ExclusionEditor({
+  exclusions,
+  onChange,
+}: {
+  exclusions: Exclusions;
+  onChange: (exclusions: Exclusions) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const activeCount = countExclusions(exclusions);
+  const patternErrors = exclusions.patterns
+    .map((pattern) => ({ pattern, error: validateExclusionPattern(pattern) }))
+    .filter((item) => item.error);
+
+  const update = (patch: Partial<Exclusions>) =>
+    onChange({ ...exclusions, ...patch });
+
+  return (
+    <Collapsible
+      open={open || patternErrors.length > 0}
+      onOpenChange={setOpen}
+      className="rounded-lg border border-gray-200"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-sm font-semibold text-gray-700 hover:text-blue-600">
+        <ChevronRight
+          className={`h-4 w-4 transition-transform ${
+            open || patternErrors.length > 0 ? "rotate-90" : ""
+          }`}
+        />
+        <ShieldOff className="h-4 w-4" />
+        Exclusions
+        {activeCount > 0 && (
+          <Badge
+            variant="outline"
+            className="ml-auto rounded-full text-blue-700 border-blue-200 bg-blue-50"
+          >
+            {activeCount} active
+          </Badge>
+        )}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 border-t border-gray-200 p-3">
+        <div className="space-y-2">
+          <Label
+            htmlFor="exclusion-patterns"
+            className="text-xs font-semibold text-gray-600"
+          >
+            Never change occurrences inside (one per line, /regex/ allowed)
+          </Label>
+          <Textarea
+            id="exclusion-patterns"
+            rows={3}
+            placeholder={"Acme™\nAcme Holdings Ltd.\n/Acme\\s+v\\d+/"}
+            value={exclusions.patterns.join("\n")}
+            onChange={(e) => update({ patterns: e.target.value.split("\n") })}
+            className="rounded-lg border-gray-300 font-mono text-sm"
+          />
+          {patternErrors.map(({ pattern, error }) => (
+            <p key={pattern} className="text-xs text-red-600 font-mono">
+              {pattern}: {error}
+            </p>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs font-semibold text-gray-600">
+            Protected contexts
+          </Label>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="protect-quotes"
+              className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+              checked={exclusions.protectQuotes}
+              onCheckedChange={(checked) =>
+                update({ protectQuotes: Boolean(checked) })
+              }
+            />
+            <Label
+              htmlFor="protect-quotes"
+              className="font-normal text-sm cursor-pointer text-gray-600"
+            >
+              Quoted text and testimonials (“…”, &lt;blockquote&gt;)
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="protect-code"
+              className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+              checked={exclusions.protectCode}
+              onCheckedChange={(checked) =>
+                update({ protectCode: Boolean(checked) })
+              }
+            />
+            <Label
+              htmlFor="protect-code"
+              className="font-normal text-sm cursor-pointer text-gray-600"
+            >
+              Code samples (&lt;code&gt;, &lt;pre&gt;, `backticks`)
+            </Label>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label
+            htmlFor="protected-words"
+            className="text-xs font-semibold text-gray-600"
+          >
+            Skip when next to these words (comma separated)
+          </Label>
+          <Input
+            id="protected-words"
+            placeholder="Inc., Legal, Trademark"
+            value={exclusions.protectedWords.join(",")}
+            onChange={(e) =>
+              update({ protectedWords: e.target.value.split(",") })
+            }
+            className="rounded-lg border-gray-300 text-sm"
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
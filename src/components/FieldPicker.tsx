@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChevronRight } from "lucide-react";
+import { type FieldNode, leafPaths } from "@/lib/schema";
+
+const FieldTreeNode = ({
+  node,
+  selected,
+  onToggle,
+  depth,
+}: {
+  node: FieldNode;
+  selected: string[];
+  onToggle: (paths: string[], checked: boolean) => void;
+  depth: number;
+}) => {
+  const [open, setOpen] = useState(true);
+  const leaves = leafPaths([node]);
+  const selectedCount = leaves.filter((path) => selected.includes(path)).length;
+  const state =
+    selectedCount === leaves.length
+      ? true
+      : selectedCount > 0
+      ? "indeterminate"
+      : false;
+  const id = `field-${node.path}`;
+
+  return (
+    <div>
+      <div
+        className="flex items-center space-x-2 px-2 py-1.5 hover:bg-gray-100 transition-colors duration-200 rounded-md"
+        style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+      >
+        {node.children.length > 0 ? (
+          <button
+            type="button"
+            aria-label={open ? "Collapse" : "Expand"}
+            onClick={() => setOpen(!open)}
+            className="text-gray-500 hover:text-blue-600"
+          >
+            <ChevronRight
+              className={`h-4 w-4 transition-transform ${
+                open ? "rotate-90" : ""
+              }`}
+            />
+          </button>
+        ) : (
+          <span className="w-4" />
+        )}
+        <Checkbox
+          id={id}
+          className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600 data-[state=indeterminate]:bg-blue-100"
+          checked={state}
+          onCheckedChange={(checked) => onToggle(leaves, checked === true)}
+        />
+        <Label
+          htmlFor={id}
+          className="font-normal text-sm w-full cursor-pointer text-gray-600"
+        >
+          {node.label}
+          <span className="ml-2 text-xs font-mono text-gray-400">
+            {node.path}
+          </span>
+        </Label>
+      </div>
+      {open &&
+        node.children.map((child) => (
+          <FieldTreeNode
+            key={child.path}
+            node={child}
+            selected={selected}
+            onToggle={onToggle}
+            depth={depth + 1}
+          />
+        ))}
+    </div>
+  );
+};
+
+export default function FieldPicker({
+  nodes,
+  selected,
+  onChange,
+}: {
+  nodes: FieldNode[];
+  selected: string[];
+  onChange: (paths: string[]) => void;
+}) {
+  const allPaths = leafPaths(nodes);
+
+  const handleToggle = (paths: string[], checked: boolean) => {
+    const others = selected.filter((path) => !paths.includes(path));
+    onChange(checked ? [...others, ...paths] : others);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold text-gray-700">
+          Fields ({selected.length} / {allPaths.length} searched)
+        </Label>
+        <div className="flex gap-3 text-xs font-medium">
+          <button
+            type="button"
+            onClick={() => onChange(allPaths)}
+            className="text-blue-600 hover:underline"
+          >
+            All
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="text-blue-600 hover:underline"
+          >
+            None
+          </button>
+        </div>
+      </div>
+      <div className="border border-gray-300 rounded-lg overflow-hidden">
+        <ScrollArea className="h-48">
+          <div className="p-1">
+            {nodes.map((node) => (
+              <FieldTreeNode
+                key={node.path}
+                node={node}
+                selected={selected}
+                onToggle={handleToggle}
+                depth={0}
+              />
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect, useRef } from "react";
 import {
   Card,
   CardContent,
@@ -24,7 +24,15 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbList,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
 import {
   Search,
   Replace,
@@ -38,8 +46,142 @@ import {
   MousePointerClick,
   ClipboardCheck,
   Sparkles, // NEW: Icon for Smart Replace
+  Filter,
+  Code,
+  AlertTriangle,
+  Link,
+  Type,
+  CaseUpper,
+  ShieldOff,
+  Network,
+  Languages,
+  Tags,
+  Rows2,
+  Columns2,
+  Pencil,
+  RefreshCw,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useFieldSelection } from "@/hooks/use-field-selection";
+import RuleEditor, { MatchOptionBadges } from "@/components/RuleEditor";
+import GlossaryReport from "@/components/GlossaryReport";
+import FieldPicker from "@/components/FieldPicker";
+import LinkRuleEditor, { LinkPairList } from "@/components/LinkRuleEditor";
+import OccurrenceList from "@/components/OccurrenceList";
+import DiffView from "@/components/DiffView";
+import MatchSnippets from "@/components/MatchSnippets";
+import AfterEditor from "@/components/AfterEditor";
+import SuggestionPicker, {
+  type Suggestion,
+} from "@/components/SuggestionPicker";
+import TermRuleEditor, {
+  TermChange,
+  TermChangeSummaryList,
+} from "@/components/TermRuleEditor";
+import ExclusionEditor from "@/components/ExclusionEditor";
+import LocalePicker from "@/components/LocalePicker";
+import SourcePicker from "@/components/SourcePicker";
+import EntryFilterPanel from "@/components/EntryFilterPanel";
+import EntryPicker from "@/components/EntryPicker";
+import EntryListImport from "@/components/EntryListImport";
+import {
+  type Rule,
+  activeRules,
+  createRule,
+  hasRuleErrors,
+  ruleLabel,
+  serializeRules,
+} from "@/lib/rules";
+import { type GlossaryParseResult, parseGlossary } from "@/lib/glossary";
+import {
+  type FieldNode,
+  breadcrumbForPath,
+  buildFieldTree,
+  leafPaths,
+} from "@/lib/schema";
+import {
+  checkRichTextChange,
+  detectRichTextFormat,
+  richTextToPlain,
+  stringifyValue,
+} from "@/lib/rich-text";
+import {
+  type LinkPair,
+  type LinkRule,
+  activeLinkRules,
+  createLinkRule,
+  hasLinkRuleErrors,
+  linkPairs,
+  plannedRewrites,
+} from "@/lib/links";
+import {
+  type TermRule,
+  type Taxonomy,
+  TAGS_SOURCE,
+  activeTermRules,
+  createTermRule,
+  hasTermRuleErrors,
+  planTermChange,
+  serializeTermRules,
+  summarizeTermChanges,
+} from "@/lib/terms";
+import {
+  type Occurrence,
+  applyOccurrences,
+  combineOccurrences,
+  fieldOccurrences,
+  groupFieldChanges,
+  occurrencesBetween,
+  type Span,
+  locateMatches,
+} from "@/lib/occurrences";
+import type { DiffLayout } from "@/lib/diff";
+import {
+  type CasePattern,
+  CASE_PATTERN_LABELS,
+  matchedCasePatterns,
+} from "@/lib/case";
+import {
+  type ExclusionReason,
+  type Exclusions,
+  DEFAULT_EXCLUSIONS,
+  EXCLUSION_REASON_LABELS,
+  countExclusions,
+  hasExclusionErrors,
+  serializeExclusions,
+} from "@/lib/exclusions";
+import { type Locale, localeName, mergeLocalePreviews } from "@/lib/locales";
+import {
+  type EntryFilterOptions,
+  type EntryFilters,
+  DEFAULT_ENTRY_FILTERS,
+  EMPTY_FILTER_OPTIONS,
+  entryFilterParams,
+} from "@/lib/entry-filters";
+import {
+  type EntryListItems,
+  type EntryListResolution,
+  type ResolvedEntry,
+  splitByContentType,
+} from "@/lib/entry-list";
+import {
+  type AssetFolder,
+  ASSETS_SOURCE,
+  ASSET_FIELD_TREE,
+  flattenFolders,
+} from "@/lib/assets";
+import {
+  type ReferenceParent,
+  MAX_REFERENCE_DEPTH,
+  dedupeReferencedResults,
+  mergeParents,
+} from "@/lib/references";
+import {
+  describeDistance,
+  groupByVariant,
+  variantDistance,
+  variantSelectionKey,
+} from "@/lib/fuzzy";
 
 // --- INTERFACES UPDATED TO MATCH ALL API STRUCTURES ---
 
@@ -48,9 +190,12 @@ interface ContentType {
   title: string;
 }
 
+// Also used for assets when the source is ASSETS_SOURCE; results then carry
+// the asset uid in `entryUid`.
 interface Entry {
   uid: string;
   title: string;
+  contentTypeUid?: string;
 }
 
 interface ScanResult {
@@ -58,6 +203,20 @@ interface ScanResult {
   field: string;
   before: string;
   title: string;
+  ruleId?: string;
+  // Set on occurrences `/scan` skipped because of an exclusion.
+  reason?: ExclusionReason;
+  // Fuzzy rules: the text that actually matched, e.g. "Contenstack".
+  variant?: string;
+  // Full JSON path of the value, e.g. "sections[2].hero.title", and its
+  // display names. `field` stays the top-level field uid.
+  path?: string;
+  breadcrumb?: string[];
+  // Entries reached by following references belong to their own content
+  // type and list the entries that reference them.
+  contentTypeUid?: string;
+  referencedBy?: ReferenceParent[];
+  locale?: string;
 }
 
 interface ChangeDetail {
@@ -65,12 +224,50 @@ interface ChangeDetail {
   before: string;
   after: string;
   brandkit_approved?: boolean;
+  ruleId?: string;
+  // Links mode: the URLs rewritten in this field.
+  links?: LinkPair[];
+  // Casing applied when the rule preserves case.
+  casePattern?: CasePattern;
+  // Terms mode: `before` is a tag or taxonomy term and `after` its new name,
+  // empty when the term is removed. `path` tells apart terms of the same
+  // field, e.g. "tags[2]".
+  path?: string;
+  breadcrumb?: string[];
+  locale?: string;
+  // Each replaced occurrence in `before`, so reviewers can approve them one
+  // at a time. Without them the field is approved as a whole.
+  occurrences?: Occurrence[];
+  // Set locally when a reviewer rewrites `after` in the preview; the edited
+  // text is pending until Brandkit has validated it again.
+  edited?: boolean;
+  validating?: boolean;
+  // Smart Replace: every suggestion for the field, including the one in
+  // `after`, when several were requested or regenerated. The index of the
+  // one in `after` is kept locally.
+  alternatives?: Suggestion[];
+  chosenAlternative?: number;
+  regenerating?: boolean;
+}
+
+// Scan matches of one entry, keyed by entry UID in the scan step.
+interface ScanEntryGroup {
+  title: string;
+  uid: string;
+  contentTypeUid: string;
+  matches: ScanResult[];
+  referencedBy: ReferenceParent[];
 }
 
+type ScanEntryGroups = Record<string, ScanEntryGroup>;
+
 interface PreviewResult {
   entryUid: string;
   title: string;
   changes: ChangeDetail[];
+  contentTypeUid?: string;
+  referencedBy?: ReferenceParent[];
+  locale?: string;
 }
 
 interface ApplyResultDetail {
@@ -88,6 +285,44 @@ interface ApplyResult {
 
 const API_BASE = "https://magic-replace-backend.vercel.app";
 
+// Results per request when scanning every entry server-side.
+const PAGE_SIZE = 100;
+// Entries per `/entries` request in the entry picker.
+const ENTRY_PAGE_SIZE = 100;
+
+// Position in a paginated `/scan` or `/preview` job. `params` are the query of
+// the first page, so later pages use the same terms even if the form changed.
+interface PageInfo {
+  params: string;
+  page: number;
+  hasMore: boolean;
+  total?: number;
+}
+
+type EntryScope = "selected" | "all";
+
+type Mode = "text" | "links" | "terms";
+
+type ScanGrouping = "entry" | "variant";
+
+// Smart Replace suggestions requested per change.
+const ALTERNATIVE_COUNTS = [1, 2, 3, 5];
+
+// Characters of context shown around each scan match.
+const SNIPPET_CONTEXTS = [20, 40, 80, 160];
+
+// Groups items by content type, keeping the order in which types first appear.
+const groupByContentType = <T extends { contentTypeUid?: string }>(
+  items: T[]
+): [string, T[]][] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const uid = item.contentTypeUid ?? "";
+    groups.set(uid, [...(groups.get(uid) ?? []), item]);
+  }
+  return [...groups.entries()];
+};
+
 const Stepper = ({
   currentStep,
 }: {
@@ -140,17 +375,361 @@ const Stepper = ({
   );
 };
 
+// A field can be changed by several rules, so selections are keyed by both.
+// Values nested in blocks and groups are told apart by their JSON path, and
+// localized variants of the same field by their locale.
+const changeKey = (change: ChangeDetail) => {
+  const location = change.path || change.field;
+  const key = change.ruleId ? `${location}::${change.ruleId}` : location;
+  return change.locale ? `${change.locale}::${key}` : key;
+};
+
+// Changes with usable occurrences are selected occurrence by occurrence.
+const selectionKeys = (change: ChangeDetail) => {
+  const occurrences = fieldOccurrences(change);
+  return occurrences
+    ? occurrences.map((_, index) => `${changeKey(change)}#${index}`)
+    : [changeKey(change)];
+};
+
+// The value `/apply` writes for a change, rebuilt from the approved
+// occurrences. With all or none of them approved it is the previewed value.
+const valueForSelection = (change: ChangeDetail, selectedKeys: string[]) => {
+  const occurrences = fieldOccurrences(change);
+  const keys = selectionKeys(change);
+  const approved = keys.map((key) => selectedKeys.includes(key));
+  if (!occurrences || approved.every(Boolean) || !approved.some(Boolean)) {
+    return change.after;
+  }
+  return applyOccurrences(
+    change.before,
+    occurrences,
+    (index) => approved[index]
+  );
+};
+
+// The approved occurrences of every change in a field applied to their shared
+// original value, or null when they overlap. Changes without occurrences
+// contribute the edits between `before` and the value they would write.
+const combinedValue = (changes: ChangeDetail[], selectedKeys: string[]) => {
+  const [{ before }] = changes;
+  if (typeof before !== "string") return null;
+  const approved: Occurrence[] = [];
+  for (const change of changes) {
+    const occurrences = fieldOccurrences(change);
+    if (occurrences) {
+      const keys = selectionKeys(change);
+      approved.push(
+        ...occurrences.filter((_, index) => selectedKeys.includes(keys[index]))
+      );
+      continue;
+    }
+    const value = valueForSelection(change, selectedKeys);
+    if (typeof value !== "string") return null;
+    approved.push(...occurrencesBetween(before, value));
+  }
+  return combineOccurrences(before, approved);
+};
+
+// The suggestion picked for each rule of a combined write, by rule id.
+const chosenAlternatives = (changes: ChangeDetail[]) => {
+  const chosen = changes.filter((change) => change.alternatives?.length > 1);
+  return chosen.length > 0
+    ? {
+        chosenAlternatives: Object.fromEntries(
+          chosen.map((change) => [
+            change.ruleId ?? "",
+            change.chosenAlternative ?? 0,
+          ])
+        ),
+      }
+    : {};
+};
+
+const markupIssueCache = new WeakMap<ChangeDetail, string | null>();
+
+// With markup-safe replacement on, rich text changes that would break the
+// document can never be selected, so they never reach `/apply`. Links mode
+// rewrites link targets on purpose.
+const markupIssue = (change: ChangeDetail, mode: Mode, markupSafe: boolean) => {
+  if (!markupSafe) return null;
+  if (!markupIssueCache.has(change)) {
+    markupIssueCache.set(
+      change,
+      checkRichTextChange(change.before, change.after, {
+        ignoreLinks: mode === "links",
+      })
+    );
+  }
+  return markupIssueCache.get(change);
+};
+
+const isSelectable = (change: ChangeDetail, mode: Mode, markupSafe: boolean) =>
+  change.brandkit_approved !== false &&
+  !change.validating &&
+  !markupIssue(change, mode, markupSafe);
+
+const FieldLocation = ({
+  value,
+  nodes,
+  className = "text-xs",
+}: {
+  value: { field: string; path?: string; breadcrumb?: string[] };
+  nodes: FieldNode[];
+  className?: string;
+}) => {
+  const path = value.path || value.field;
+  const crumbs = value.breadcrumb?.length
+    ? value.breadcrumb
+    : breadcrumbForPath(path, nodes);
+
+  return (
+    <Breadcrumb title={path}>
+      <BreadcrumbList className={`${className} gap-1 sm:gap-1 text-blue-600`}>
+        {crumbs.map((crumb, index) => (
+          <Fragment key={index}>
+            {index > 0 && <BreadcrumbSeparator className="text-gray-400" />}
+            <BreadcrumbItem className="font-mono">{crumb}</BreadcrumbItem>
+          </Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+};
+
+const ReferencedBy = ({ parents }: { parents?: ReferenceParent[] }) => {
+  if (!parents?.length) return null;
+
+  return (
+    <p className="flex flex-wrap items-center gap-1 text-xs font-normal text-gray-500">
+      <Network className="h-3 w-3" />
+      Referenced by{" "}
+      {parents.map((parent, index) => (
+        <span key={`${parent.entryUid}-${parent.field}`}>
+          <span className="font-medium text-gray-700">{parent.title}</span>{" "}
+          <span className="font-mono">({parent.field})</span>
+          {index < parents.length - 1 && ","}
+        </span>
+      ))}
+    </p>
+  );
+};
+
+const LoadMore = ({
+  page,
+  shown,
+  noun,
+  loading,
+  onLoadMore,
+}: {
+  page: PageInfo | null;
+  shown: number;
+  noun: string;
+  loading: boolean;
+  onLoadMore: (page: number) => void;
+}) => {
+  if (!page?.hasMore) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-2 pt-6">
+      <p className="text-xs text-gray-500">
+        Showing {shown}
+        {page.total !== undefined ? ` of ${page.total}` : ""} {noun}
+      </p>
+      <Button
+        variant="outline"
+        onClick={() => onLoadMore(page.page + 1)}
+        disabled={loading}
+        className="rounded-lg border-gray-300 text-gray-700"
+      >
+        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Load more
+      </Button>
+    </div>
+  );
+};
+
+const ContentTypeHeading = ({
+  title,
+  count,
+}: {
+  title: string;
+  count: number;
+}) => (
+  <div className="flex items-center gap-2 pt-2 pb-1">
+    <FileText className="h-4 w-4 text-blue-600" />
+    <h3 className="text-sm font-bold uppercase tracking-wide text-gray-700">
+      {title}
+    </h3>
+    <span className="text-xs text-gray-500">
+      {count} {count === 1 ? "entry" : "entries"}
+    </span>
+  </div>
+);
+
+const LocaleBadge = ({
+  code,
+  locales,
+}: {
+  code?: string;
+  locales: Locale[];
+}) => {
+  if (!code) return null;
+  const name = localeName(code, locales);
+
+  return (
+    <Badge
+      variant="outline"
+      className="rounded-full text-xs text-teal-700 border-teal-200 bg-teal-50"
+    >
+      <Languages className="h-3 w-3 mr-1" />
+      {name}
+      {name !== code && <span className="ml-1 font-mono">({code})</span>}
+    </Badge>
+  );
+};
+
+const FORMAT_LABELS = { html: "HTML RTE", json: "JSON RTE" };
+
+const FormatBadge = ({ value }: { value: unknown }) => {
+  const format = detectRichTextFormat(value);
+  if (format === "plain") return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="rounded-full text-xs font-medium text-gray-600 border-gray-300"
+    >
+      <Code className="h-3 w-3 mr-1" />
+      {FORMAT_LABELS[format]}
+    </Badge>
+  );
+};
+
+const CasePatternBadge = ({
+  change,
+  rule,
+}: {
+  change: ChangeDetail;
+  rule?: Rule;
+}) => {
+  if (!rule?.options.preserveCase) return null;
+  const patterns = change.casePattern
+    ? [change.casePattern]
+    : matchedCasePatterns(
+        richTextToPlain(change.before),
+        rule.find,
+        rule.options
+      );
+  if (patterns.length === 0) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="rounded-full text-xs font-medium text-indigo-700 border-indigo-200 bg-indigo-50"
+    >
+      <CaseUpper className="h-3 w-3 mr-1" />
+      {patterns.map((pattern) => CASE_PATTERN_LABELS[pattern]).join(", ")}
+    </Badge>
+  );
+};
+
+const RuleSummary = ({ rules }: { rules: Rule[] }) => {
+  if (rules.length === 0) return null;
+
+  return (
+    <div className="space-y-2 pt-2">
+      {rules.map((rule) => (
+        <div key={rule.id} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-mono text-gray-600">
+            {ruleLabel(rule, rules)}
+          </span>
+          <MatchOptionBadges options={rule.options} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
 export default function FindReplace() {
   const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
-  const [selectedContentType, setSelectedContentType] = useState<string>("");
+  const [selectedContentTypes, setSelectedContentTypes] = useState<string[]>(
+    []
+  );
+  // Field scoping and the schema tree need exactly one content type; several
+  // types are always scanned in full.
+  const singleContentType =
+    selectedContentTypes.length === 1 ? selectedContentTypes[0] : "";
   const [entries, setEntries] = useState<Entry[]>([]);
+  const [fieldTree, setFieldTree] = useState<FieldNode[]>([]);
+  const [fieldSelection, setFieldSelection] =
+    useFieldSelection(singleContentType);
   const [selectedEntries, setSelectedEntries] = useState<string[]>([]);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [replaceWith, setReplaceWith] = useState("");
+  // "all" scans every entry matching `entryQuery` and the filters
+  // server-side, except `excludedEntries`, instead of enumerating UIDs.
+  const [entryScope, setEntryScope] = useState<EntryScope>("selected");
+  const [excludedEntries, setExcludedEntries] = useState<string[]>([]);
+  const [entryQuery, setEntryQuery] = useState("");
+  const [entryTotal, setEntryTotal] = useState(0);
+  const [entriesLoading, setEntriesLoading] = useState(false);
+  // Only the latest `/entries` request may update the list, so a slow
+  // response for an old search never overwrites a newer one.
+  const entryRequest = useRef(0);
+  // Latest Brandkit validation per edited change, by entry and change key.
+  // Responses for an older edit of the same change are ignored.
+  const validationRequests = useRef<Record<string, number>>({});
+  const [entryFilters, setEntryFilters] = useState<EntryFilters>(
+    DEFAULT_ENTRY_FILTERS
+  );
+  const [filterOptions, setFilterOptions] =
+    useState<EntryFilterOptions>(EMPTY_FILTER_OPTIONS);
+  const [locales, setLocales] = useState<Locale[]>([]);
+  // Empty means the stack's master locale only.
+  const [selectedLocales, setSelectedLocales] = useState<string[]>([]);
+  const [folders, setFolders] = useState<AssetFolder[]>([]);
+  const [selectedFolder, setSelectedFolder] = useState("all");
+  const [mode, setMode] = useState<Mode>("text");
+  const [rules, setRules] = useState<Rule[]>(() => [createRule()]);
+  const [linkRules, setLinkRules] = useState<LinkRule[]>(() => [
+    createLinkRule(),
+  ]);
+  const [termRules, setTermRules] = useState<TermRule[]>(() => [
+    createTermRule(),
+  ]);
+  // TAGS_SOURCE or the uid of a taxonomy; assets only have tags.
+  const [termSource, setTermSource] = useState(TAGS_SOURCE);
+  const [taxonomies, setTaxonomies] = useState<Taxonomy[]>([]);
+  const [exclusions, setExclusions] = useState<Exclusions>(DEFAULT_EXCLUSIONS);
   // NEW: State to control the AI-powered smart replace feature.
   const [isSmartReplace, setIsSmartReplace] = useState(false);
+  const [alternativeCount, setAlternativeCount] = useState(1);
+  const [isMarkupSafe, setIsMarkupSafe] = useState(true);
+  // How many levels of reference fields to follow; 0 scans only the
+  // selected entries.
+  const [referenceDepth, setReferenceDepth] = useState(0);
+  // Rich text values are shown as readable text unless markup is requested.
+  const [showMarkup, setShowMarkup] = useState(false);
+  const [diffLayout, setDiffLayout] = useState<DiffLayout>("unified");
+  const [snippetContext, setSnippetContext] = useState(40);
+  // Mode and rules the current scan/preview results were produced with.
+  const [resultMode, setResultMode] = useState<Mode>("text");
+  const [resultRules, setResultRules] = useState<Rule[]>([]);
+  const [resultLinkRules, setResultLinkRules] = useState<LinkRule[]>([]);
+  const [resultTermRules, setResultTermRules] = useState<TermRule[]>([]);
+  const [resultSmart, setResultSmart] = useState(false);
+  const [resultMarkupSafe, setResultMarkupSafe] = useState(true);
+  const [ruleFilter, setRuleFilter] = useState("all");
+  const [glossaryReport, setGlossaryReport] =
+    useState<GlossaryParseResult | null>(null);
+  const [isDraggingGlossary, setIsDraggingGlossary] = useState(false);
   const [scanResults, setScanResults] = useState<ScanResult[]>([]);
+  const [skippedResults, setSkippedResults] = useState<ScanResult[]>([]);
+  const [scanGrouping, setScanGrouping] = useState<ScanGrouping>("entry");
+  // Fuzzy variants left out of the preview, keyed by rule and variant.
+  const [ignoredVariants, setIgnoredVariants] = useState<string[]>([]);
   const [previewResults, setPreviewResults] = useState<PreviewResult[]>([]);
+  const [scanPage, setScanPage] = useState<PageInfo | null>(null);
+  const [previewPage, setPreviewPage] = useState<PageInfo | null>(null);
   const [applyResults, setApplyResults] = useState<ApplyResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [step, setStep] = useState<"select" | "scan" | "preview" | "apply">(
@@ -161,18 +740,74 @@ export default function FindReplace() {
   >({});
   const { toast } = useToast();
 
+  const isAssetSource = selectedContentTypes[0] === ASSETS_SOURCE;
+  const itemNoun = isAssetSource ? "assets" : "entries";
+  const runnableRules = activeRules(rules);
+  const runnableLinkRules = activeLinkRules(linkRules);
+  const runnableTermRules = activeTermRules(termRules);
+  const activeTermSource = isAssetSource ? TAGS_SOURCE : termSource;
+  const allFieldPaths = leafPaths(fieldTree);
+  // A remembered selection may name fields that were since removed.
+  const selectedFields = fieldSelection
+    ? fieldSelection.filter((path) => allFieldPaths.includes(path))
+    : allFieldPaths;
+  const isFieldScoped = selectedFields.length < allFieldPaths.length;
+  // Regex rules are validated locally so a typo never reaches the backend.
+  const hasTerms =
+    mode === "links"
+      ? runnableLinkRules.length > 0 && !hasLinkRuleErrors(runnableLinkRules)
+      : mode === "terms"
+      ? runnableTermRules.length > 0 && !hasTermRuleErrors(runnableTermRules)
+      : runnableRules.length > 0 &&
+        !hasRuleErrors(runnableRules) &&
+        !hasExclusionErrors(exclusions);
+  const canScan =
+    selectedContentTypes.length > 0 &&
+    hasTerms &&
+    (entryScope === "all"
+      ? entryTotal > excludedEntries.length
+      : selectedEntries.length > 0) &&
+    (mode === "terms" || fieldTree.length === 0 || selectedFields.length > 0);
+  const canPreview =
+    canScan &&
+    (mode !== "text" || runnableRules.every((rule) => rule.replace.trim()));
+
   useEffect(() => {
     loadContentTypes();
+    loadLocales();
+    loadTaxonomies();
   }, []);
 
   useEffect(() => {
-    if (selectedContentType) {
-      loadEntries();
+    setSelectedFolder("all");
+    setEntryScope("selected");
+    setExcludedEntries([]);
+    // Filters and search of the previous type would not fit the new one.
+    setEntryFilters(DEFAULT_ENTRY_FILTERS);
+    setEntryQuery("");
+    const fresh = {
+      folderUid: "all",
+      filters: DEFAULT_ENTRY_FILTERS,
+      query: "",
+    };
+    if (isAssetSource) {
+      loadEntries(fresh);
+      loadFolders();
+      setFieldTree(ASSET_FIELD_TREE);
+    } else if (selectedContentTypes.length > 0) {
+      loadEntries(fresh);
+      loadFilterOptions();
+      if (singleContentType) {
+        loadSchema();
+      } else {
+        setFieldTree([]);
+      }
     } else {
       setEntries([]);
+      setFieldTree([]);
     }
     setSelectedEntries([]);
-  }, [selectedContentType]);
+  }, [selectedContentTypes]);
 
   const loadContentTypes = async () => {
     try {
@@ -188,60 +823,395 @@ export default function FindReplace() {
     }
   };
 
-  const loadEntries = async () => {
-    if (!selectedContentType) return;
+  const loadEntries = async ({
+    folderUid = selectedFolder,
+    filters = entryFilters,
+    query = entryQuery,
+    skip = 0,
+  } = {}) => {
+    if (selectedContentTypes.length === 0) return;
+    const request = ++entryRequest.current;
+    setEntriesLoading(true);
+    try {
+      const params = new URLSearchParams([
+        ["skip", String(skip)],
+        ["limit", String(ENTRY_PAGE_SIZE)],
+      ]);
+      if (query.trim()) params.append("query", query.trim());
+      if (isAssetSource) {
+        if (folderUid !== "all") params.append("folderUid", folderUid);
+      } else {
+        selectedContentTypes.forEach((uid) =>
+          params.append("contentTypeUids", uid)
+        );
+        entryFilterParams(filters).forEach(([name, value]) =>
+          params.append(name, value)
+        );
+      }
+      const response = await fetch(
+        `${API_BASE}/${
+          isAssetSource ? "assets" : "entries"
+        }?${params.toString()}`
+      );
+      const data = await response.json();
+      if (request !== entryRequest.current) return;
+      const page: Entry[] = (isAssetSource ? data.assets : data.entries) || [];
+      setEntries((prev) => (skip > 0 ? [...prev, ...page] : page));
+      setEntryTotal(data.count ?? skip + page.length);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to load ${itemNoun}`,
+        variant: "destructive",
+      });
+    } finally {
+      if (request === entryRequest.current) setEntriesLoading(false);
+    }
+  };
+
+  const loadFilterOptions = async () => {
+    try {
+      const params = new URLSearchParams(
+        selectedContentTypes.map((uid) => ["contentTypeUids", uid])
+      );
+      const response = await fetch(
+        `${API_BASE}/entries/filter-options?${params.toString()}`
+      );
+      const data = await response.json();
+      setFilterOptions({ ...EMPTY_FILTER_OPTIONS, ...data });
+    } catch (error) {
+      console.error("Filter options load failed:", error);
+      setFilterOptions(EMPTY_FILTER_OPTIONS);
+    }
+  };
+
+  const loadLocales = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/locales`);
+      const data = await response.json();
+      setLocales(data.locales || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load locales",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Taxonomies are optional on a stack, so a failed load only hides them.
+  const loadTaxonomies = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/taxonomies`);
+      const data = await response.json();
+      setTaxonomies(data.taxonomies || []);
+    } catch (error) {
+      console.error("Taxonomies load failed:", error);
+      setTaxonomies([]);
+    }
+  };
+
+  const loadFolders = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/assets/folders`);
+      const data = await response.json();
+      setFolders(data.folders || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load asset folders",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadSchema = async () => {
+    if (!singleContentType) return;
+    setFieldTree([]);
     try {
       const response = await fetch(
-        `${API_BASE}/entries?contentTypeUid=${selectedContentType}`
+        `${API_BASE}/content-types/${singleContentType}`
       );
+      if (!response.ok)
+        throw new Error(`HTTP error! status: ${response.status}`);
       const data = await response.json();
-      setEntries(data.entries || []);
+      setFieldTree(
+        buildFieldTree(data.contentType?.schema || data.schema || [])
+      );
     } catch (error) {
+      console.error("Schema load failed:", error);
       toast({
         title: "Error",
-        description: "Failed to load entries",
+        description: "Failed to load the content type schema",
         variant: "destructive",
       });
     }
   };
 
-  const handleSelectAll = (checked: boolean) => {
-    setSelectedEntries(checked ? entries.map((e) => e.uid) : []);
+  // Filters are applied on the server, so the entry list is reloaded and the
+  // current selection, which may include filtered-out entries, is cleared.
+  const handleFiltersApply = (filters: EntryFilters) => {
+    setEntryFilters(filters);
+    setSelectedEntries([]);
+    setExcludedEntries([]);
+    loadEntries({ filters });
+  };
+
+  const handleFolderChange = (folderUid: string) => {
+    setSelectedFolder(folderUid);
+    setSelectedEntries([]);
+    setExcludedEntries([]);
+    loadEntries({ folderUid });
+  };
+
+  // Selecting every field is stored as "no restriction" so fields added to
+  // the content type later are searched too.
+  const handleFieldSelection = (paths: string[]) => {
+    setFieldSelection(paths.length === allFieldPaths.length ? null : paths);
+  };
+
+  // The selection survives new searches; "all matching" follows them.
+  const handleEntryQuery = (query: string) => {
+    setEntryQuery(query);
+    setExcludedEntries([]);
+    loadEntries({ query });
+  };
+
+  const isEntrySelected = (entryUid: string) =>
+    entryScope === "all"
+      ? !excludedEntries.includes(entryUid)
+      : selectedEntries.includes(entryUid);
+
+  const handleSelectEntries = (entryUids: string[], checked: boolean) => {
+    // With "all matching" selected, unticking records an exclusion instead.
+    const update = entryScope === "all" ? !checked : checked;
+    const setList =
+      entryScope === "all" ? setExcludedEntries : setSelectedEntries;
+    setList((prev) =>
+      update
+        ? [...new Set([...prev, ...entryUids])]
+        : prev.filter((uid) => !entryUids.includes(uid))
+    );
+  };
+
+  const handleAllMatching = (allMatching: boolean) => {
+    setEntryScope(allMatching ? "all" : "selected");
+    setExcludedEntries([]);
+    if (!allMatching) setSelectedEntries([]);
   };
 
-  const handleSelectEntry = (entryUid: string, checked: boolean) => {
+  // Pasted UIDs and URLs are looked up across every content type so IDs of
+  // other types can be reported instead of silently dropped.
+  const handleResolveEntryList = async (
+    items: EntryListItems
+  ): Promise<EntryListResolution | null> => {
+    try {
+      const response = await fetch(`${API_BASE}/entries/resolve`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ uids: items.uids, urls: items.urls }),
+      });
+      if (!response.ok)
+        throw new Error(`HTTP error! status: ${response.status}`);
+      const data = await response.json();
+      return splitByContentType(
+        data.resolved || [],
+        data.unknown || [],
+        selectedContentTypes
+      );
+    } catch (error) {
+      console.error("Entry list resolve failed:", error);
+      toast({
+        title: "Error",
+        description: "Failed to look up the listed entries",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  // Imported entries are added to the current selection, which may include
+  // entries that are not loaded in the picker.
+  const handleEntryListSelect = (resolved: ResolvedEntry[]) => {
+    setEntryScope("selected");
+    setExcludedEntries([]);
     setSelectedEntries((prev) =>
-      checked ? [...prev, entryUid] : prev.filter((uid) => uid !== entryUid)
+      entryScope === "all"
+        ? resolved.map((entry) => entry.uid)
+        : [...new Set([...prev, ...resolved.map((entry) => entry.uid)])]
     );
+    toast({
+      title: "Entries selected",
+      description: `${resolved.length} entries from the list were selected`,
+    });
+  };
+
+  // An imported glossary replaces the rule table; rows that could not be
+  // turned into rules are listed in the report instead.
+  const handleGlossaryFile = async (file: File) => {
+    try {
+      const result = parseGlossary(file.name, await file.text());
+      if (typeof result === "string") {
+        toast({
+          title: "Import failed",
+          description: result,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (result.rules.length > 0) {
+        setRules(result.rules);
+        setMode("text");
+      }
+      setGlossaryReport(result);
+    } catch (error) {
+      console.error("Glossary import failed:", error);
+      toast({
+        title: "Error",
+        description: "Failed to read the glossary file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const buildJobParams = (forPreview: boolean) => {
+    const params = new URLSearchParams();
+    if (isAssetSource) {
+      params.append("source", "assets");
+    } else {
+      selectedContentTypes.forEach((uid) =>
+        params.append("contentTypeUids", uid)
+      );
+    }
+    if (isAssetSource && selectedFolder !== "all") {
+      params.append("folderUid", selectedFolder);
+    }
+    if (mode === "links") {
+      params.append("mode", "links");
+      params.append(
+        "linkRules",
+        JSON.stringify(
+          runnableLinkRules.map(({ id, from, to }) => ({ id, from, to }))
+        )
+      );
+    } else if (mode === "terms") {
+      params.append("mode", "terms");
+      params.append("termSource", activeTermSource);
+      params.append("termRules", serializeTermRules(runnableTermRules));
+    } else {
+      params.append("rules", serializeRules(runnableRules, forPreview));
+      if (isMarkupSafe) {
+        params.append("markupSafe", "true");
+      }
+      if (countExclusions(exclusions) > 0) {
+        params.append("exclusions", serializeExclusions(exclusions));
+      }
+    }
+    // Walk modular blocks, groups, global fields and multiple-value fields so
+    // results carry the full path of each nested value.
+    if (!isAssetSource) {
+      selectedLocales.forEach((code) => params.append("locales", code));
+      params.append("deep", "true");
+      if (referenceDepth > 0) {
+        params.append("referenceDepth", String(referenceDepth));
+      }
+    }
+    if (entryScope === "all") {
+      params.append("allEntries", "true");
+      if (entryQuery.trim()) {
+        params.append("query", entryQuery.trim());
+      }
+      if (!isAssetSource) {
+        entryFilterParams(entryFilters).forEach(([name, value]) =>
+          params.append(name, value)
+        );
+      }
+      excludedEntries.forEach((uid) => params.append("excludeEntryUids", uid));
+      params.append("pageSize", String(PAGE_SIZE));
+    } else {
+      selectedEntries.forEach((uid) => params.append("entryUids", uid));
+    }
+    if (isFieldScoped && mode !== "terms") {
+      selectedFields.forEach((path) => params.append("fields", path));
+    }
+
+    if (forPreview && mode === "text" && ignoredVariants.length > 0) {
+      params.append(
+        "ignoreVariants",
+        JSON.stringify(
+          ignoredVariants.map((key) => {
+            const [ruleId, variant] = key.split(/::(.*)/s);
+            return { ruleId, variant };
+          })
+        )
+      );
+    }
+
+    // NEW: Append the 'smart' parameter if the user has enabled it.
+    if (forPreview && isSmartReplace && mode === "text") {
+      params.append("smart", "true");
+      if (alternativeCount > 1) {
+        params.append("alternatives", String(alternativeCount));
+      }
+    }
+    return params;
   };
 
-  const handleScan = async () => {
-    if (
-      !selectedContentType ||
-      !searchQuery.trim() ||
-      selectedEntries.length === 0
-    )
-      return;
+  const rememberResultTerms = () => {
+    setResultMode(mode);
+    setResultRules(mode === "text" ? runnableRules : []);
+    setResultLinkRules(runnableLinkRules);
+    setResultTermRules(runnableTermRules);
+    setResultSmart(isSmartReplace && mode === "text");
+    setResultMarkupSafe(isMarkupSafe);
+  };
+
+  // Page 1 starts a new scan; later pages of an "all entries" scan are
+  // appended to the results already shown.
+  const handleScan = async (page = 1) => {
+    if (page === 1 && !canScan) return;
     setLoading(true);
     setPreviewResults([]);
     setApplyResults(null);
     try {
-      const params = new URLSearchParams({
-        contentTypeUid: selectedContentType,
-        query: searchQuery,
-      });
-      selectedEntries.forEach((uid) => params.append("entryUids", uid));
+      const params =
+        page === 1
+          ? buildJobParams(false)
+          : new URLSearchParams(scanPage.params);
+      const query = params.toString();
+      if (page > 1) params.append("page", String(page));
 
       const response = await fetch(`${API_BASE}/scan?${params.toString()}`);
       if (!response.ok)
         throw new Error(`HTTP error! status: ${response.status}`);
       const data = await response.json();
 
-      setScanResults(data.matches || []);
+      const skipped = data.skipped || [];
+      setScanPage({
+        params: query,
+        page,
+        hasMore: Boolean(data.hasMore),
+        total: data.totalMatches,
+      });
+      if (page > 1) {
+        setScanResults((prev) =>
+          dedupeReferencedResults([...prev, ...(data.matches || [])])
+        );
+        setSkippedResults((prev) => [...prev, ...skipped]);
+        return;
+      }
+      setScanResults(dedupeReferencedResults(data.matches || []));
+      setSkippedResults(skipped);
+      setIgnoredVariants([]);
+      rememberResultTerms();
       setStep("scan");
       toast({
         title: "Scan Complete",
-        description: `Found ${data.totalMatches} matches across ${selectedEntries.length} selected entries.`,
+        description: `Found ${data.totalMatches} matches across ${
+          entryScope === "all"
+            ? `all matching ${itemNoun}`
+            : `${selectedEntries.length} selected ${itemNoun}`
+        }.${skipped.length > 0 ? ` ${skipped.length} excluded.` : ""}`,
       });
     } catch (error) {
       console.error("Scan failed:", error);
@@ -255,113 +1225,379 @@ export default function FindReplace() {
     }
   };
 
-  // CHANGED: This function now sends the 'smart' flag to the backend.
-  const handlePreview = async () => {
-    if (
-      !selectedContentType ||
-      !searchQuery.trim() ||
-      !replaceWith.trim() ||
-      selectedEntries.length === 0
-    )
-      return;
-    setLoading(true);
-    setScanResults([]);
-    setApplyResults(null);
+  // CHANGED: This function now sends the 'smart' flag to the backend.
+  const handlePreview = async (page = 1) => {
+    if (page === 1 && !canPreview) return;
+    setLoading(true);
+    setScanResults([]);
+    setApplyResults(null);
+    try {
+      const params =
+        page === 1
+          ? buildJobParams(true)
+          : new URLSearchParams(previewPage.params);
+      const query = params.toString();
+      if (page > 1) params.append("page", String(page));
+
+      const response = await fetch(`${API_BASE}/preview?${params.toString()}`);
+      if (!response.ok)
+        throw new Error(`HTTP error! status: ${response.status}`);
+      const data = await response.json();
+      const previewData: PreviewResult[] = mergeLocalePreviews(
+        data.preview || [],
+        changeKey
+      );
+      setPreviewPage({
+        params: query,
+        page,
+        hasMore: Boolean(data.hasMore),
+        total: data.totalEntries,
+      });
+
+      const jobMode = page === 1 ? mode : resultMode;
+      const jobMarkupSafe = page === 1 ? isMarkupSafe : resultMarkupSafe;
+      const initialSelections: Record<string, string[]> = {};
+      previewData.forEach((entry: PreviewResult) => {
+        initialSelections[entry.entryUid] = entry.changes
+          .filter((change) => isSelectable(change, jobMode, jobMarkupSafe))
+          .flatMap(selectionKeys);
+      });
+      if (page > 1) {
+        setPreviewResults((prev) =>
+          mergeLocalePreviews([...prev, ...previewData], changeKey)
+        );
+        setSelectedChanges((prev) => {
+          const merged = { ...prev };
+          Object.entries(initialSelections).forEach(([entryUid, keys]) => {
+            merged[entryUid] = [
+              ...new Set([...(prev[entryUid] || []), ...keys]),
+            ];
+          });
+          return merged;
+        });
+        return;
+      }
+      setPreviewResults(previewData);
+      rememberResultTerms();
+      setRuleFilter("all");
+      setSelectedChanges(initialSelections);
+
+      setStep("preview");
+      const allChanges = previewData.flatMap(
+        (entry: PreviewResult) => entry.changes
+      );
+      const approved = allChanges.filter(
+        (c: ChangeDetail) => c.brandkit_approved !== false
+      ).length;
+      const rejected = allChanges.length - approved;
+
+      toast({
+        title: "Preview Ready",
+        description: `${approved} changes approved, ${rejected} rejected by Brandkit`,
+      });
+    } catch (error) {
+      console.error("Preview failed:", error);
+      toast({
+        title: "Error",
+        description: "Failed to generate preview.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Toggles a whole change (all of its occurrences) or a single occurrence.
+  const handleToggleChangeSelection = (
+    entryUid: string,
+    keys: string[],
+    checked: boolean
+  ) => {
+    setSelectedChanges((prev) => {
+      const currentKeys = (prev[entryUid] || []).filter(
+        (k) => !keys.includes(k)
+      );
+      const newKeys = checked ? [...currentKeys, ...keys] : currentKeys;
+      return { ...prev, [entryUid]: newKeys };
+    });
+  };
+
+  // Only the changes visible under the current rule filter are (de)selected.
+  const handleSelectAllForEntry = (
+    entry: PreviewResult,
+    changes: ChangeDetail[],
+    checked: boolean
+  ) => {
+    const approvableKeys = changes
+      .filter((change) => isSelectable(change, resultMode, resultMarkupSafe))
+      .flatMap(selectionKeys);
+
+    setSelectedChanges((prev) => {
+      const others = (prev[entry.entryUid] || []).filter(
+        (key) => !approvableKeys.includes(key)
+      );
+      return {
+        ...prev,
+        [entry.entryUid]: checked ? [...others, ...approvableKeys] : others,
+      };
+    });
+  };
+
+  const updatePreviewChange = (
+    entryUid: string,
+    key: string,
+    patch: Partial<ChangeDetail>
+  ) => {
+    setPreviewResults((prev) =>
+      prev.map((entry) =>
+        entry.entryUid !== entryUid
+          ? entry
+          : {
+              ...entry,
+              changes: entry.changes.map((change) =>
+                changeKey(change) === key ? { ...change, ...patch } : change
+              ),
+            }
+      )
+    );
+  };
+
+  // Edited text replaces the whole value, so the change is no longer approved
+  // occurrence by occurrence, and it stays unselectable until Brandkit has
+  // checked it.
+  const handleEditChange = async (
+    entry: PreviewResult,
+    change: ChangeDetail,
+    text: string
+  ) => {
+    const key = changeKey(change);
+    const requestKey = `${entry.entryUid}::${key}`;
+    const request = (validationRequests.current[requestKey] ?? 0) + 1;
+    validationRequests.current[requestKey] = request;
+    const isCurrent = () => validationRequests.current[requestKey] === request;
+    const previousKeys = selectionKeys(change);
+    updatePreviewChange(entry.entryUid, key, {
+      after: text,
+      occurrences: undefined,
+      edited: true,
+      validating: true,
+    });
+    handleToggleChangeSelection(entry.entryUid, previousKeys, false);
+    try {
+      const response = await fetch(`${API_BASE}/brandkit/validate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          entryUid: entry.entryUid,
+          ...(isAssetSource ? {} : { contentTypeUid: contentTypeOf(entry) }),
+          field: change.field,
+          path: change.path,
+          locale: change.locale,
+          text,
+        }),
+      });
+      if (!response.ok)
+        throw new Error(`HTTP error! status: ${response.status}`);
+      const data = await response.json();
+      if (!isCurrent()) return;
+      const approved = data.brandkit_approved !== false;
+      updatePreviewChange(entry.entryUid, key, {
+        brandkit_approved: approved,
+        validating: false,
+      });
+      if (approved) {
+        handleToggleChangeSelection(entry.entryUid, [key], true);
+      } else {
+        toast({
+          title: "Rejected by Brandkit",
+          description: "The edited text does not meet the brand guidelines.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Brandkit validation failed:", error);
+      if (!isCurrent()) return;
+      updatePreviewChange(entry.entryUid, key, {
+        brandkit_approved: false,
+        validating: false,
+      });
+      toast({
+        title: "Error",
+        description:
+          "Failed to validate the edited text. Save it again to retry.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Puts one of a change's suggestions in `after`. Occurrences and manual
+  // edits belonged to the previous text, so they are dropped.
+  const handleChooseAlternative = (
+    entryUid: string,
+    change: ChangeDetail,
+    index: number
+  ) => {
+    const suggestion = change.alternatives[index];
+    const key = changeKey(change);
+    // A pending validation of an edit no longer applies.
+    validationRequests.current[`${entryUid}::${key}`] =
+      (validationRequests.current[`${entryUid}::${key}`] ?? 0) + 1;
+    updatePreviewChange(entryUid, key, {
+      alternatives: change.alternatives,
+      chosenAlternative: index,
+      after: suggestion.after,
+      brandkit_approved: suggestion.brandkit_approved,
+      occurrences: undefined,
+      edited: false,
+      validating: false,
+      regenerating: false,
+    });
+    handleToggleChangeSelection(entryUid, selectionKeys(change), false);
+    if (suggestion.brandkit_approved !== false) {
+      handleToggleChangeSelection(entryUid, [key], true);
+    }
+  };
+
+  // Runs the preview job again for this change only. New suggestions are
+  // added to the ones already shown and the first of them is chosen.
+  const handleRegenerate = async (
+    entry: PreviewResult,
+    change: ChangeDetail
+  ) => {
+    const key = changeKey(change);
+    updatePreviewChange(entry.entryUid, key, { regenerating: true });
     try {
-      const params = new URLSearchParams({
-        contentTypeUid: selectedContentType,
-        query: searchQuery,
-        replaceWith: replaceWith,
-      });
-      selectedEntries.forEach((uid) => params.append("entryUids", uid));
-
-      // NEW: Append the 'smart' parameter if the user has enabled it.
-      if (isSmartReplace) {
-        params.append("smart", "true");
-      }
+      const params = new URLSearchParams(previewPage.params);
+      [
+        "allEntries",
+        "query",
+        "excludeEntryUids",
+        "pageSize",
+        "entryUids",
+        "fields",
+        "locales",
+      ].forEach((name) => params.delete(name));
+      params.append("entryUids", entry.entryUid);
+      params.append("fields", change.path || change.field);
+      if (change.locale) params.append("locales", change.locale);
+      params.append("regenerate", "true");
 
       const response = await fetch(`${API_BASE}/preview?${params.toString()}`);
       if (!response.ok)
         throw new Error(`HTTP error! status: ${response.status}`);
       const data = await response.json();
-      const previewData = data.preview || [];
-      setPreviewResults(previewData);
-
-      const initialSelections: Record<string, string[]> = {};
-      previewData.forEach((entry: PreviewResult) => {
-        initialSelections[entry.entryUid] = entry.changes
-          .filter((c) => c.brandkit_approved !== false)
-          .map((c) => c.field);
-      });
-      setSelectedChanges(initialSelections);
+      const fresh = mergeLocalePreviews<ChangeDetail, PreviewResult>(
+        data.preview || [],
+        changeKey
+      )
+        .flatMap((result) => result.changes)
+        .find((candidate) => changeKey(candidate) === key);
+      if (!fresh) throw new Error("No suggestion returned for the change");
 
-      setStep("preview");
-      const allChanges = previewData.flatMap(
-        (entry: PreviewResult) => entry.changes
+      const current: Suggestion[] =
+        change.alternatives ??
+        (change.edited
+          ? []
+          : [
+              {
+                after: change.after,
+                brandkit_approved: change.brandkit_approved,
+              },
+            ]);
+      const added = (
+        fresh.alternatives ?? [
+          { after: fresh.after, brandkit_approved: fresh.brandkit_approved },
+        ]
+      ).filter(
+        (suggestion) => !current.some((c) => c.after === suggestion.after)
+      );
+      if (added.length === 0) {
+        updatePreviewChange(entry.entryUid, key, { regenerating: false });
+        toast({
+          title: "No new suggestions",
+          description: "Smart Replace returned suggestions already shown.",
+        });
+        return;
+      }
+      handleChooseAlternative(
+        entry.entryUid,
+        { ...change, alternatives: [...current, ...added] },
+        current.length
       );
-      const approved = allChanges.filter(
-        (c: ChangeDetail) => c.brandkit_approved !== false
-      ).length;
-      const rejected = allChanges.length - approved;
-
-      toast({
-        title: "Preview Ready",
-        description: `${approved} changes approved, ${rejected} rejected by Brandkit`,
-      });
     } catch (error) {
-      console.error("Preview failed:", error);
+      console.error("Regenerate failed:", error);
+      updatePreviewChange(entry.entryUid, key, { regenerating: false });
       toast({
         title: "Error",
-        description: "Failed to generate preview.",
+        description: "Failed to regenerate the suggestion.",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const handleToggleChangeSelection = (
-    entryUid: string,
-    field: string,
-    checked: boolean
-  ) => {
-    setSelectedChanges((prev) => {
-      const currentFields = prev[entryUid] || [];
-      const newFields = checked
-        ? [...currentFields, field]
-        : currentFields.filter((f) => f !== field);
-      return { ...prev, [entryUid]: newFields };
-    });
-  };
-
-  const handleSelectAllForEntry = (entry: PreviewResult, checked: boolean) => {
-    const allApprovableFields = entry.changes
-      .filter((c) => c.brandkit_approved !== false)
-      .map((c) => c.field);
-
-    setSelectedChanges((prev) => ({
-      ...prev,
-      [entry.entryUid]: checked ? allApprovableFields : [],
-    }));
-  };
-
   const handleApply = async () => {
     setLoading(true);
     try {
       const changesToApply = [];
+      let conflicts = 0;
       previewResults.forEach((entry) => {
-        const selectedFieldsForEntry = selectedChanges[entry.entryUid] || [];
-        entry.changes.forEach((change) => {
-          if (selectedFieldsForEntry.includes(change.field)) {
-            changesToApply.push({
-              entryUid: entry.entryUid,
-              field: change.field,
-              newValue: change.after,
-            });
+        const selectedKeysForEntry = selectedChanges[entry.entryUid] || [];
+        const selected = entry.changes.filter(
+          (change) =>
+            selectionKeys(change).some((key) =>
+              selectedKeysForEntry.includes(key)
+            ) && !markupIssue(change, resultMode, resultMarkupSafe)
+        );
+        // Terms are separate values even within one field, so they are
+        // never combined.
+        const { groups, conflicts: conflicting } =
+          resultMode === "terms"
+            ? { groups: selected.map((change) => [change]), conflicts: [] }
+            : groupFieldChanges(selected);
+        conflicts += conflicting.length;
+        groups.forEach((changes) => {
+          const [change] = changes;
+          const newValue =
+            changes.length === 1
+              ? valueForSelection(change, selectedKeysForEntry)
+              : combinedValue(changes, selectedKeysForEntry);
+          if (newValue === null) {
+            conflicts++;
+            return;
           }
+          changesToApply.push({
+            entryUid: entry.entryUid,
+            ...(isAssetSource ? {} : { contentTypeUid: contentTypeOf(entry) }),
+            field: change.field,
+            path: change.path,
+            locale: change.locale,
+            newValue,
+            ...(changes.length === 1
+              ? { ruleId: change.ruleId }
+              : { ruleIds: changes.map((c) => c.ruleId) }),
+            ...(changes.some((c) => c.edited) ? { edited: true } : {}),
+            ...(changes.length === 1
+              ? change.alternatives?.length > 1
+                ? { chosenAlternative: change.chosenAlternative ?? 0 }
+                : {}
+              : chosenAlternatives(changes)),
+            ...(resultMode === "terms" ? { term: change.before } : {}),
+          });
         });
       });
 
+      if (conflicts > 0) {
+        toast({
+          title: "Conflicting changes",
+          description: `${conflicts} ${
+            conflicts === 1 ? "field is" : "fields are"
+          } changed by several rules that cannot be combined. Approve one of them per field and apply again.`,
+          variant: "destructive",
+        });
+        setLoading(false);
+        return;
+      }
+
       if (changesToApply.length === 0) {
         toast({
           title: "No changes selected",
@@ -372,24 +1608,53 @@ export default function FindReplace() {
         return;
       }
 
-      const response = await fetch(`${API_BASE}/apply`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contentTypeUid: selectedContentType,
-          changes: changesToApply,
-        }),
-      });
-      const data = await response.json();
+      // `/apply` updates one content type per request, so a job over several
+      // types sends one request per type. A failed request marks its entries
+      // as failed without hiding the types that were already updated.
+      const requests = isAssetSource
+        ? [{ source: "assets", changes: changesToApply }]
+        : groupByContentType(changesToApply).map(
+            ([contentTypeUid, changes]) => ({ contentTypeUid, changes })
+          );
+      const data: ApplyResult = { totalUpdated: 0, results: [] };
+      for (const body of requests) {
+        try {
+          const response = await fetch(`${API_BASE}/apply`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          });
+          if (!response.ok)
+            throw new Error(`HTTP error! status: ${response.status}`);
+          const result: ApplyResult = await response.json();
+          data.totalUpdated += result.totalUpdated || 0;
+          data.results.push(...(result.results || []));
+        } catch (error) {
+          console.error("Apply failed:", error);
+          const entryUids = [
+            ...new Set(body.changes.map((change) => change.entryUid)),
+          ];
+          data.results.push(
+            ...entryUids.map((entryUid) => ({
+              entryUid,
+              title:
+                previewResults.find((entry) => entry.entryUid === entryUid)
+                  ?.title ?? entryUid,
+              status: "failed" as const,
+              error: error instanceof Error ? error.message : String(error),
+            }))
+          );
+        }
+      }
       setApplyResults(data);
       setStep("apply");
 
-      const failedCount = (data.results || []).filter(
-        (r: ApplyResultDetail) => r.status === "failed"
+      const failedCount = data.results.filter(
+        (r) => r.status === "failed"
       ).length;
       toast({
         title: "Changes Applied",
-        description: `${data.totalUpdated} entries updated, ${failedCount} failed`,
+        description: `${data.totalUpdated} ${itemNoun} updated, ${failedCount} failed`,
       });
     } catch (error) {
       toast({
@@ -404,29 +1669,242 @@ export default function FindReplace() {
 
   const resetFlow = () => {
     setStep("select");
-    setSelectedContentType("");
+    setSelectedContentTypes([]);
     setEntries([]);
+    setFieldTree([]);
     setSelectedEntries([]);
+    setFolders([]);
+    setSelectedLocales([]);
     setScanResults([]);
+    setSkippedResults([]);
+    setScanPage(null);
+    setPreviewPage(null);
+    setEntryScope("selected");
+    setEntryQuery("");
+    setExcludedEntries([]);
+    setEntryTotal(0);
+    setEntryFilters(DEFAULT_ENTRY_FILTERS);
+    setIgnoredVariants([]);
+    setScanGrouping("entry");
     setPreviewResults([]);
     setApplyResults(null);
-    setSearchQuery("");
-    setReplaceWith("");
+    setMode("text");
+    setRules([createRule()]);
+    setLinkRules([createLinkRule()]);
+    setTermRules([createTermRule()]);
+    setTermSource(TAGS_SOURCE);
+    setExclusions(DEFAULT_EXCLUSIONS);
+    setResultRules([]);
+    setResultLinkRules([]);
+    setResultTermRules([]);
+    setRuleFilter("all");
+    setGlossaryReport(null);
     setSelectedChanges({});
     setIsSmartReplace(false); // Reset smart replace flag
+    setAlternativeCount(1);
+    setIsMarkupSafe(true);
+    setReferenceDepth(0);
   };
 
-  const isAllSelected =
-    entries.length > 0 && selectedEntries.length === entries.length;
+  const resultRuleById = Object.fromEntries(
+    resultRules.map((rule) => [rule.id, rule])
+  );
+  const ruleFor = (item: { ruleId?: string }) =>
+    resultRuleById[item.ruleId] ||
+    (resultRules.length === 1 ? resultRules[0] : undefined);
+  // Applied changes of an entry that had several Smart Replace suggestions,
+  // for the apply report.
+  const chosenAlternativesFor = (entryUid: string) =>
+    (
+      previewResults.find((entry) => entry.entryUid === entryUid)?.changes || []
+    ).filter(
+      (change) =>
+        change.alternatives?.length > 1 &&
+        selectionKeys(change).some((key) =>
+          selectedChanges[entryUid]?.includes(key)
+        )
+    );
+  // Locales of the changes sent for an entry, for the apply report.
+  const appliedLocalesFor = (entryUid: string) => [
+    ...new Set(
+      (
+        previewResults.find((entry) => entry.entryUid === entryUid)?.changes ||
+        []
+      )
+        .filter(
+          (change) =>
+            change.locale &&
+            selectionKeys(change).some((key) =>
+              selectedChanges[entryUid]?.includes(key)
+            )
+        )
+        .map((change) => change.locale)
+    ),
+  ];
+  const visibleChangesFor = (entry: PreviewResult) =>
+    ruleFilter === "all"
+      ? entry.changes
+      : entry.changes.filter((c) => c.ruleId === ruleFilter);
+
+  const entryContentTypes = Object.fromEntries(
+    entries.map((entry) => [entry.uid, entry.contentTypeUid])
+  );
+  // Results name their content type when the backend reports it; otherwise it
+  // is looked up from the entry list.
+  const contentTypeOf = (item: { entryUid: string; contentTypeUid?: string }) =>
+    item.contentTypeUid ||
+    entryContentTypes[item.entryUid] ||
+    selectedContentTypes[0];
+  const contentTypeTitle = (uid: string) =>
+    contentTypes.find((type) => type.uid === uid)?.title ?? uid;
 
   const groupedScanResults = scanResults.reduce((acc, result) => {
     const { entryUid, title } = result;
     if (!acc[entryUid]) {
-      acc[entryUid] = { title, uid: entryUid, matches: [] };
+      acc[entryUid] = {
+        title,
+        uid: entryUid,
+        contentTypeUid: contentTypeOf(result),
+        matches: [],
+        referencedBy: [],
+      };
     }
     acc[entryUid].matches.push(result);
+    acc[entryUid].referencedBy = mergeParents(
+      acc[entryUid].referencedBy,
+      result.referencedBy
+    );
     return acc;
-  }, {} as Record<string, { title: string; uid: string; matches: ScanResult[] }>);
+  }, {} as ScanEntryGroups);
+  const scanTypeGroups = groupByContentType(Object.values(groupedScanResults));
+  const previewTypeGroups = groupByContentType(
+    previewResults.map((entry) => ({
+      ...entry,
+      contentTypeUid: contentTypeOf(entry),
+    }))
+  );
+
+  const hasFuzzyResults =
+    resultMode === "text" && resultRules.some((rule) => rule.options.fuzzy);
+  const variantGroups = hasFuzzyResults
+    ? groupByVariant(
+        scanResults,
+        (result) => resultRuleById[result.ruleId]?.find ?? resultRules[0].find
+      )
+    : [];
+
+  // Entries affected by each term change: planned locally from the scanned
+  // terms, or taken from the preview.
+  const termSummary =
+    resultMode !== "terms"
+      ? []
+      : summarizeTermChanges(
+          step === "preview"
+            ? previewResults.flatMap((entry) =>
+                entry.changes.map((change) => ({
+                  entryUid: entry.entryUid,
+                  from: change.before,
+                  to: change.after || null,
+                }))
+              )
+            : scanResults.flatMap((result) => {
+                const planned = planTermChange(result.before, resultTermRules);
+                return planned
+                  ? [
+                      {
+                        entryUid: result.entryUid,
+                        from: result.before,
+                        to: planned.to,
+                      },
+                    ]
+                  : [];
+              })
+        );
+
+  const toggleVariant = (key: string, included: boolean) => {
+    setIgnoredVariants((prev) =>
+      included ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  // Occurrences are located in the displayed text, plain or markup; offsets
+  // from the backend would refer to the raw value.
+  const scanSnippet = (result: ScanResult) => {
+    const text = showMarkup
+      ? stringifyValue(result.before)
+      : richTextToPlain(result.before);
+    const rule = ruleFor(result);
+    const spans = !rule
+      ? []
+      : result.variant
+      ? locateMatches(text, result.variant, { ...rule.options, regex: false })
+      : locateMatches(text, rule.find, rule.options);
+    return { text, spans };
+  };
+
+  const renderScanText = ({ text, spans }: { text: string; spans: Span[] }) => (
+    <MatchSnippets text={text} spans={spans} context={snippetContext} />
+  );
+
+  const renderScanMatch = (
+    result: ScanResult,
+    index: number,
+    withTitle = false
+  ) => {
+    const snippet = resultMode === "text" ? scanSnippet(result) : null;
+    const occurrenceCount = snippet?.spans.length ?? 0;
+    return (
+      <div key={index} className="pl-4">
+        <div className="flex flex-wrap items-center gap-2 mb-1">
+          {withTitle && (
+            <p className="text-sm font-semibold text-gray-800">
+              {result.title}
+            </p>
+          )}
+          <FieldLocation value={result} nodes={fieldTree} />
+          <FormatBadge value={result.before} />
+          <LocaleBadge code={result.locale} locales={locales} />
+          {occurrenceCount > 0 && (
+            <Badge
+              variant="outline"
+              className="rounded-full text-xs font-medium text-blue-700 border-blue-200 bg-blue-50"
+            >
+              {occurrenceCount}{" "}
+              {occurrenceCount === 1 ? "occurrence" : "occurrences"}
+            </Badge>
+          )}
+          {resultRuleById[result.ruleId] && (
+            <Badge
+              variant="outline"
+              className="rounded-full text-xs font-mono text-gray-600"
+            >
+              {ruleLabel(resultRuleById[result.ruleId], resultRules)}
+            </Badge>
+          )}
+          {!withTitle && result.variant && (
+            <Badge
+              variant="outline"
+              className="rounded-full text-xs font-mono text-purple-700 border-purple-200 bg-purple-50"
+            >
+              “{result.variant}”
+            </Badge>
+          )}
+        </div>
+        {resultMode === "links" ? (
+          <LinkPairList
+            pairs={plannedRewrites(result.before, resultLinkRules)}
+          />
+        ) : resultMode === "terms" ? (
+          <TermChange
+            from={result.before}
+            to={planTermChange(result.before, resultTermRules)?.to ?? null}
+          />
+        ) : (
+          renderScanText(snippet)
+        )}
+      </div>
+    );
+  };
 
   return (
     <div className="min-h-screen p-6 bg-gray-50 text-gray-800 font-sans antialiased">
@@ -455,79 +1933,172 @@ export default function FindReplace() {
               <CardContent className="space-y-6 pt-6">
                 <div className="space-y-2">
                   <Label className="text-sm font-semibold text-gray-700">
-                    Content Type
+                    Content Types or Assets
                   </Label>
-                  <Select
-                    value={selectedContentType}
-                    onValueChange={setSelectedContentType}
-                  >
-                    <SelectTrigger className="rounded-lg border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors">
-                      <SelectValue placeholder="Select a content type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {contentTypes.map((type) => (
-                        <SelectItem key={type.uid} value={type.uid}>
-                          {type.title}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <SourcePicker
+                    contentTypes={contentTypes}
+                    selected={selectedContentTypes}
+                    onChange={setSelectedContentTypes}
+                  />
                 </div>
-                {entries.length > 0 && (
-                  <div className="space-y-3">
+                {selectedContentTypes.length > 0 &&
+                  !isAssetSource &&
+                  locales.length > 0 && (
+                    <LocalePicker
+                      locales={locales}
+                      selected={selectedLocales}
+                      onChange={setSelectedLocales}
+                    />
+                  )}
+                {isAssetSource && (
+                  <div className="space-y-2">
                     <Label className="text-sm font-semibold text-gray-700">
-                      Select Entries ({selectedEntries.length} /{" "}
-                      {entries.length} selected)
+                      Folder
                     </Label>
-                    <div className="border border-gray-300 rounded-lg overflow-hidden">
-                      <div className="flex items-center space-x-2 p-3 border-b border-gray-200 bg-gray-100">
-                        <Checkbox
-                          id="select-all"
-                          className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
-                          checked={isAllSelected}
-                          onCheckedChange={(checked) =>
-                            handleSelectAll(Boolean(checked))
-                          }
-                        />
-                        <Label
-                          htmlFor="select-all"
-                          className="font-semibold text-sm text-gray-700"
+                    <Select
+                      value={selectedFolder}
+                      onValueChange={handleFolderChange}
+                    >
+                      <SelectTrigger className="rounded-lg border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All folders</SelectItem>
+                        {flattenFolders(folders).map(({ folder, depth }) => (
+                          <SelectItem key={folder.uid} value={folder.uid}>
+                            <span style={{ paddingLeft: `${depth * 0.75}rem` }}>
+                              {folder.name}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {fieldTree.length > 0 && (
+                  <FieldPicker
+                    nodes={fieldTree}
+                    selected={selectedFields}
+                    onChange={handleFieldSelection}
+                  />
+                )}
+                {entries.length > 0 && !isAssetSource && (
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="follow-references"
+                        className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                        checked={referenceDepth > 0}
+                        onCheckedChange={(checked) =>
+                          setReferenceDepth(checked ? 1 : 0)
+                        }
+                      />
+                      <Label
+                        htmlFor="follow-references"
+                        className="font-normal text-sm cursor-pointer text-gray-600"
+                      >
+                        Also scan referenced entries
+                      </Label>
+                    </div>
+                    {referenceDepth > 0 && (
+                      <Select
+                        value={String(referenceDepth)}
+                        onValueChange={(value) =>
+                          setReferenceDepth(Number(value))
+                        }
+                      >
+                        <SelectTrigger
+                          aria-label="Reference depth"
+                          className="h-8 w-32 rounded-lg border-gray-300 text-xs"
                         >
-                          {isAllSelected ? "Deselect All" : "Select All"}
-                        </Label>
-                      </div>
-                      <ScrollArea className="h-60">
-                        <div className="p-1">
-                          {entries.map((entry) => (
-                            <div
-                              key={entry.uid}
-                              className="flex items-center space-x-2 px-2 py-3 hover:bg-gray-100 transition-colors duration-200 rounded-md"
-                            >
-                              <Checkbox
-                                id={entry.uid}
-                                className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
-                                checked={selectedEntries.includes(entry.uid)}
-                                onCheckedChange={(checked) =>
-                                  handleSelectEntry(entry.uid, Boolean(checked))
-                                }
-                              />
-                              <Label
-                                htmlFor={entry.uid}
-                                className="font-normal text-sm w-full cursor-pointer text-gray-600"
-                              >
-                                {entry.title}
-                              </Label>
-                            </div>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from(
+                            { length: MAX_REFERENCE_DEPTH },
+                            (_, i) => i + 1
+                          ).map((depth) => (
+                            <SelectItem key={depth} value={String(depth)}>
+                              {depth} {depth === 1 ? "level" : "levels"} deep
+                            </SelectItem>
                           ))}
-                        </div>
-                      </ScrollArea>
-                    </div>
+                        </SelectContent>
+                      </Select>
+                    )}
                   </div>
                 )}
+                {selectedContentTypes.length > 0 && !isAssetSource && (
+                  <EntryFilterPanel
+                    filters={entryFilters}
+                    options={filterOptions}
+                    onApply={handleFiltersApply}
+                  />
+                )}
+                {selectedContentTypes.length > 0 && (
+                  <EntryPicker
+                    entries={entries}
+                    total={entryTotal}
+                    loading={entriesLoading}
+                    noun={itemNoun}
+                    query={entryQuery}
+                    onQueryChange={handleEntryQuery}
+                    onLoadMore={() => loadEntries({ skip: entries.length })}
+                    allMatching={entryScope === "all"}
+                    onAllMatchingChange={handleAllMatching}
+                    selectedCount={selectedEntries.length}
+                    isSelected={isEntrySelected}
+                    onToggle={(uid, checked) =>
+                      handleSelectEntries([uid], checked)
+                    }
+                    onToggleLoaded={(checked) =>
+                      handleSelectEntries(
+                        entries.map((entry) => entry.uid),
+                        checked
+                      )
+                    }
+                    describeEntry={
+                      selectedContentTypes.length > 1
+                        ? (entry) => contentTypeTitle(entry.contentTypeUid)
+                        : undefined
+                    }
+                    toolbar={
+                      !isAssetSource && (
+                        <EntryListImport
+                          onResolve={handleResolveEntryList}
+                          onSelect={handleEntryListSelect}
+                        />
+                      )
+                    }
+                  />
+                )}
               </CardContent>
             </Card>
 
-            <Card className="rounded-2xl border border-gray-200 shadow-xl shadow-gray-200/50 hover:shadow-2xl hover:shadow-gray-300/50 transition-all duration-300">
+            <Card
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes("Files")) return;
+                e.preventDefault();
+                setIsDraggingGlossary(true);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                  setIsDraggingGlossary(false);
+                }
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDraggingGlossary(false);
+                const file = e.dataTransfer.files[0];
+                if (file) handleGlossaryFile(file);
+              }}
+              className={`rounded-2xl border border-gray-200 shadow-xl shadow-gray-200/50 hover:shadow-2xl hover:shadow-gray-300/50 transition-all duration-300
+                ${
+                  isDraggingGlossary
+                    ? "border-blue-400 ring-2 ring-blue-500/20 bg-blue-50/50"
+                    : ""
+                }
+              `}
+            >
               <CardHeader className="border-b border-gray-200 pb-4">
                 <CardTitle className="flex items-center gap-2 text-xl text-blue-700">
                   <FileText className="h-6 w-6" />
@@ -535,69 +2106,136 @@ export default function FindReplace() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-6 pt-6">
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="searchQuery"
-                    className="text-sm font-semibold text-gray-700"
-                  >
-                    Find
-                  </Label>
-                  <Input
-                    id="searchQuery"
-                    placeholder="Enter text to find..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="rounded-lg border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="replaceWith"
-                    className="text-sm font-semibold text-gray-700"
-                  >
-                    Replace With
-                  </Label>
-                  <Input
-                    id="replaceWith"
-                    placeholder="Enter replacement text..."
-                    value={replaceWith}
-                    onChange={(e) => setReplaceWith(e.target.value)}
-                    className="rounded-lg border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors"
-                  />
-                </div>
-                {/* --- NEW: Smart Replace Checkbox --- */}
-                <div className="flex items-center space-x-3 pt-2">
-                  <Checkbox
-                    id="smart-replace"
-                    className="rounded-md border-gray-400 data-[state=checked]:bg-purple-600 data-[state=checked]:border-purple-600"
-                    checked={isSmartReplace}
-                    onCheckedChange={(checked) =>
-                      setIsSmartReplace(Boolean(checked))
-                    }
-                  />
-                  <Label
-                    htmlFor="smart-replace"
-                    className="font-medium flex items-center gap-2 cursor-pointer text-gray-700"
-                  >
-                    <Sparkles className="h-5 w-5 text-purple-600" />
-                    Use Smart Replace
-                    <Badge
-                      variant="outline"
-                      className="text-purple-600 border-purple-300 bg-purple-50 rounded-full font-bold px-3"
-                    >
-                      AI
-                    </Badge>
-                  </Label>
-                </div>
+                <Tabs
+                  value={mode}
+                  onValueChange={(value) => {
+                    setMode(value as Mode);
+                    if (value !== "text") setIsSmartReplace(false);
+                  }}
+                  className="space-y-6"
+                >
+                  <TabsList className="grid w-full grid-cols-3 rounded-lg">
+                    <TabsTrigger value="text" className="gap-2 rounded-md">
+                      <Type className="h-4 w-4" />
+                      Text
+                    </TabsTrigger>
+                    <TabsTrigger value="links" className="gap-2 rounded-md">
+                      <Link className="h-4 w-4" />
+                      Links
+                    </TabsTrigger>
+                    <TabsTrigger value="terms" className="gap-2 rounded-md">
+                      <Tags className="h-4 w-4" />
+                      Tags
+                    </TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="text" className="space-y-6 mt-0">
+                    <RuleEditor
+                      rules={rules}
+                      locales={
+                        isAssetSource
+                          ? []
+                          : locales.filter((locale) =>
+                              selectedLocales.includes(locale.code)
+                            )
+                      }
+                      onChange={setRules}
+                      onImport={handleGlossaryFile}
+                    />
+                    {glossaryReport && (
+                      <GlossaryReport
+                        report={glossaryReport}
+                        canPreview={canPreview && !loading}
+                        onPreview={() => handlePreview()}
+                        onDismiss={() => setGlossaryReport(null)}
+                      />
+                    )}
+                    <ExclusionEditor
+                      exclusions={exclusions}
+                      onChange={setExclusions}
+                    />
+                    {/* --- NEW: Smart Replace Checkbox --- */}
+                    <div className="flex items-center space-x-3 pt-2">
+                      <Checkbox
+                        id="smart-replace"
+                        className="rounded-md border-gray-400 data-[state=checked]:bg-purple-600 data-[state=checked]:border-purple-600"
+                        checked={isSmartReplace}
+                        onCheckedChange={(checked) =>
+                          setIsSmartReplace(Boolean(checked))
+                        }
+                      />
+                      <Label
+                        htmlFor="smart-replace"
+                        className="font-medium flex items-center gap-2 cursor-pointer text-gray-700"
+                      >
+                        <Sparkles className="h-5 w-5 text-purple-600" />
+                        Use Smart Replace
+                        <Badge
+                          variant="outline"
+                          className="text-purple-600 border-purple-300 bg-purple-50 rounded-full font-bold px-3"
+                        >
+                          AI
+                        </Badge>
+                      </Label>
+                    </div>
+                    {isSmartReplace && (
+                      <div className="flex items-center gap-2 pl-7">
+                        <Label className="text-sm text-gray-600">
+                          Suggestions per change
+                        </Label>
+                        <Select
+                          value={String(alternativeCount)}
+                          onValueChange={(value) =>
+                            setAlternativeCount(Number(value))
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-20 rounded-lg border-gray-300 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ALTERNATIVE_COUNTS.map((count) => (
+                              <SelectItem key={count} value={String(count)}>
+                                {count}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className="flex items-center space-x-3">
+                      <Checkbox
+                        id="markup-safe"
+                        className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                        checked={isMarkupSafe}
+                        onCheckedChange={(checked) =>
+                          setIsMarkupSafe(Boolean(checked))
+                        }
+                      />
+                      <Label
+                        htmlFor="markup-safe"
+                        className="font-medium flex items-center gap-2 cursor-pointer text-gray-700"
+                      >
+                        <Code className="h-5 w-5 text-blue-600" />
+                        Only replace text inside rich text markup
+                      </Label>
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="links" className="mt-0">
+                    <LinkRuleEditor rules={linkRules} onChange={setLinkRules} />
+                  </TabsContent>
+                  <TabsContent value="terms" className="mt-0">
+                    <TermRuleEditor
+                      rules={termRules}
+                      onChange={setTermRules}
+                      source={activeTermSource}
+                      onSourceChange={setTermSource}
+                      taxonomies={isAssetSource ? [] : taxonomies}
+                    />
+                  </TabsContent>
+                </Tabs>
                 <div className="flex flex-col space-y-3 pt-4">
                   <Button
-                    onClick={handleScan}
-                    disabled={
-                      !selectedContentType ||
-                      !searchQuery.trim() ||
-                      selectedEntries.length === 0 ||
-                      loading
-                    }
+                    onClick={() => handleScan()}
+                    disabled={!canScan || loading}
                     className="w-full text-white font-bold py-6 rounded-xl bg-blue-600 hover:bg-blue-700 transition-colors shadow-lg shadow-blue-500/20"
                   >
                     {loading && step === "scan" ? (
@@ -608,14 +2246,8 @@ export default function FindReplace() {
                     Scan Content
                   </Button>
                   <Button
-                    onClick={handlePreview}
-                    disabled={
-                      !selectedContentType ||
-                      !searchQuery.trim() ||
-                      !replaceWith.trim() ||
-                      selectedEntries.length === 0 ||
-                      loading
-                    }
+                    onClick={() => handlePreview()}
+                    disabled={!canPreview || loading}
                     variant="outline"
                     className={`w-full font-bold py-6 rounded-xl border-2 transition-all
                       ${
@@ -669,48 +2301,251 @@ export default function FindReplace() {
                     <Search className="h-6 w-6" />
                     Scan Results
                   </CardTitle>
-                  <CardDescription>
-                    Found {scanResults.length} instances of your search query.
+                  <CardDescription className="flex flex-wrap items-center gap-2">
+                    {resultMode === "links"
+                      ? `Found ${scanResults.length} fields with links to migrate.`
+                      : resultMode === "terms"
+                      ? `Found ${scanResults.length} matching terms.`
+                      : `Found ${scanResults.length} instances of your ${
+                          resultRules.length > 1 ? "rules" : "search query"
+                        }.`}
+                    {skippedResults.length > 0 && (
+                      <Badge
+                        variant="outline"
+                        className="rounded-full text-amber-800 border-amber-200 bg-amber-50 font-semibold"
+                      >
+                        <ShieldOff className="h-3 w-3 mr-1" />
+                        {skippedResults.length} excluded
+                      </Badge>
+                    )}
                   </CardDescription>
+                  <RuleSummary rules={resultRules} />
+                  <TermChangeSummaryList summary={termSummary} />
+                  <div className="flex items-center gap-2 pt-2">
+                    <Switch
+                      id="show-markup-scan"
+                      checked={showMarkup}
+                      onCheckedChange={setShowMarkup}
+                    />
+                    <Label
+                      htmlFor="show-markup-scan"
+                      className="text-xs font-medium text-gray-600"
+                    >
+                      Show rich text markup
+                    </Label>
+                    {resultMode === "text" && (
+                      <div className="ml-auto flex items-center gap-2">
+                        <Label className="text-xs font-medium text-gray-600">
+                          Context
+                        </Label>
+                        <Select
+                          value={String(snippetContext)}
+                          onValueChange={(value) =>
+                            setSnippetContext(Number(value))
+                          }
+                        >
+                          <SelectTrigger className="h-7 w-36 rounded-lg border-gray-300 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SNIPPET_CONTEXTS.map((size) => (
+                              <SelectItem key={size} value={String(size)}>
+                                {size} characters
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
                 </CardHeader>
                 <CardContent className="pt-6">
-                  <Accordion type="multiple" className="w-full">
-                    {Object.values(groupedScanResults).map((entry) => (
-                      <AccordionItem
-                        value={entry.uid}
-                        key={entry.uid}
-                        className="border-b border-gray-200 last:border-b-0"
+                  {hasFuzzyResults && (
+                    <div className="flex items-center gap-2 mb-4">
+                      <Label className="text-sm font-medium text-gray-600">
+                        Group by
+                      </Label>
+                      <Select
+                        value={scanGrouping}
+                        onValueChange={(value) =>
+                          setScanGrouping(value as ScanGrouping)
+                        }
                       >
-                        <AccordionTrigger className="font-semibold text-gray-800 hover:no-underline">
-                          <div className="flex-1 text-left">
-                            <h4 className="font-bold">{entry.title}</h4>
-                            <p className="font-normal text-gray-500 text-sm">
-                              {entry.uid}
-                            </p>
-                          </div>
-                          <span className="font-medium text-blue-600 ml-4 bg-blue-100 py-1 px-3 rounded-full text-xs">
-                            {entry.matches.length} matches
+                        <SelectTrigger className="h-9 w-40 rounded-lg border-gray-300 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="entry">Entry</SelectItem>
+                          <SelectItem value="variant">
+                            Matched variant
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {ignoredVariants.length > 0 && (
+                        <span className="text-xs text-gray-500">
+                          {ignoredVariants.length} variant
+                          {ignoredVariants.length > 1 ? "s" : ""} left unchanged
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {scanGrouping === "variant" && hasFuzzyResults ? (
+                    <Accordion type="multiple" className="w-full">
+                      {variantGroups.map((group) => {
+                        const rule = resultRuleById[group.ruleId];
+                        const included = !ignoredVariants.includes(group.key);
+                        return (
+                          <AccordionItem
+                            value={group.key}
+                            key={group.key}
+                            className="border-b border-gray-200 last:border-b-0"
+                          >
+                            <div className="flex items-center gap-3">
+                              <Checkbox
+                                aria-label={`Normalize "${group.variant}"`}
+                                className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                                checked={included}
+                                onCheckedChange={(checked) =>
+                                  toggleVariant(group.key, Boolean(checked))
+                                }
+                              />
+                              <AccordionTrigger className="flex-1 font-semibold text-gray-800 hover:no-underline">
+                                <div className="flex-1 text-left">
+                                  <h4
+                                    className={`font-bold font-mono ${
+                                      included
+                                        ? ""
+                                        : "text-gray-400 line-through"
+                                    }`}
+                                  >
+                                    {group.variant}
+                                  </h4>
+                                  {rule && (
+                                    <p className="font-normal text-gray-500 text-sm font-mono">
+                                      {ruleLabel(rule, resultRules)}
+                                    </p>
+                                  )}
+                                </div>
+                                {rule && (
+                                  <Badge
+                                    variant="outline"
+                                    className="rounded-full text-xs text-purple-700 border-purple-200 bg-purple-50 ml-4"
+                                  >
+                                    {describeDistance(
+                                      variantDistance(group.variant, rule.find)
+                                    )}
+                                  </Badge>
+                                )}
+                                <span className="font-medium text-blue-600 ml-2 bg-blue-100 py-1 px-3 rounded-full text-xs">
+                                  {group.results.length} matches
+                                </span>
+                              </AccordionTrigger>
+                            </div>
+                            <AccordionContent>
+                              <div className="space-y-4 pl-4 border-l-2 border-purple-200">
+                                {group.results.map((result, index) =>
+                                  renderScanMatch(result, index, true)
+                                )}
+                              </div>
+                            </AccordionContent>
+                          </AccordionItem>
+                        );
+                      })}
+                    </Accordion>
+                  ) : (
+                    <div className="space-y-4">
+                      {scanTypeGroups.map(([typeUid, typeEntries]) => (
+                        <div key={typeUid}>
+                          {scanTypeGroups.length > 1 && (
+                            <ContentTypeHeading
+                              title={contentTypeTitle(typeUid)}
+                              count={typeEntries.length}
+                            />
+                          )}
+                          <Accordion type="multiple" className="w-full">
+                            {typeEntries.map((entry) => (
+                              <AccordionItem
+                                value={entry.uid}
+                                key={entry.uid}
+                                className="border-b border-gray-200 last:border-b-0"
+                              >
+                                <AccordionTrigger className="font-semibold text-gray-800 hover:no-underline">
+                                  <div className="flex-1 text-left">
+                                    <h4 className="font-bold">{entry.title}</h4>
+                                    <p className="font-normal text-gray-500 text-sm">
+                                      {entry.uid}
+                                    </p>
+                                    <ReferencedBy
+                                      parents={entry.referencedBy}
+                                    />
+                                  </div>
+                                  <span className="font-medium text-blue-600 ml-4 bg-blue-100 py-1 px-3 rounded-full text-xs">
+                                    {entry.matches.length} matches
+                                  </span>
+                                </AccordionTrigger>
+                                <AccordionContent>
+                                  <div className="space-y-4 pl-4 border-l-2 border-blue-200">
+                                    {entry.matches.map((result, index) =>
+                                      renderScanMatch(result, index)
+                                    )}
+                                  </div>
+                                </AccordionContent>
+                              </AccordionItem>
+                            ))}
+                          </Accordion>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {skippedResults.length > 0 && (
+                    <Accordion
+                      type="single"
+                      collapsible
+                      className="w-full mt-6 border-t border-gray-200 pt-2"
+                    >
+                      <AccordionItem value="excluded" className="border-b-0">
+                        <AccordionTrigger className="font-semibold text-amber-800 hover:no-underline">
+                          <span className="flex items-center gap-2">
+                            <ShieldOff className="h-4 w-4" />
+                            Excluded occurrences ({skippedResults.length})
                           </span>
                         </AccordionTrigger>
                         <AccordionContent>
-                          <div className="space-y-4 pl-4 border-l-2 border-blue-200">
-                            {entry.matches.map((result, index) => (
+                          <div className="space-y-4 pl-4 border-l-2 border-amber-200">
+                            {skippedResults.map((result, index) => (
                               <div key={index} className="pl-4">
-                                <p className="text-xs text-blue-600 font-mono mb-1">
-                                  {result.field}
-                                </p>
-                                <div className="bg-gray-100 rounded-lg p-3 border border-gray-200 shadow-inner">
-                                  <p className="text-sm font-mono whitespace-pre-wrap text-gray-700">
-                                    {result.before}
+                                <div className="flex flex-wrap items-center gap-2 mb-1">
+                                  <p className="text-sm font-semibold text-gray-800">
+                                    {result.title}
                                   </p>
+                                  <FieldLocation
+                                    value={result}
+                                    nodes={fieldTree}
+                                  />
+                                  {result.reason && (
+                                    <Badge
+                                      variant="outline"
+                                      className="rounded-full text-xs text-amber-800 border-amber-200 bg-amber-50"
+                                    >
+                                      {EXCLUSION_REASON_LABELS[result.reason]}
+                                    </Badge>
+                                  )}
                                 </div>
+                                {renderScanText(scanSnippet(result))}
                               </div>
                             ))}
                           </div>
                         </AccordionContent>
                       </AccordionItem>
-                    ))}
-                  </Accordion>
+                    </Accordion>
+                  )}
+                  <LoadMore
+                    page={scanPage}
+                    shown={scanResults.length}
+                    noun="matches"
+                    loading={loading}
+                    onLoadMore={handleScan}
+                  />
                 </CardContent>
               </Card>
             )}
@@ -726,148 +2561,472 @@ export default function FindReplace() {
                     Select the changes you wish to apply, then click the "Apply"
                     button at the bottom.
                   </CardDescription>
+                  <RuleSummary rules={resultRules} />
+                  <TermChangeSummaryList summary={termSummary} />
+                  <div className="flex items-center gap-2 pt-2">
+                    <Switch
+                      id="show-markup-preview"
+                      checked={showMarkup}
+                      onCheckedChange={setShowMarkup}
+                    />
+                    <Label
+                      htmlFor="show-markup-preview"
+                      className="text-xs font-medium text-gray-600"
+                    >
+                      Show rich text markup
+                    </Label>
+                    {resultMode === "text" && (
+                      <ToggleGroup
+                        type="single"
+                        size="sm"
+                        value={diffLayout}
+                        onValueChange={(value) =>
+                          value && setDiffLayout(value as DiffLayout)
+                        }
+                        className="ml-auto"
+                      >
+                        <ToggleGroupItem
+                          value="unified"
+                          className="h-7 px-2 text-xs"
+                        >
+                          <Rows2 className="h-3 w-3 mr-1" />
+                          Unified
+                        </ToggleGroupItem>
+                        <ToggleGroupItem
+                          value="split"
+                          className="h-7 px-2 text-xs"
+                        >
+                          <Columns2 className="h-3 w-3 mr-1" />
+                          Side by side
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                    )}
+                  </div>
+                  {resultRules.length > 1 && (
+                    <div className="flex items-center gap-2 pt-2">
+                      <Filter className="h-4 w-4 text-gray-500" />
+                      <Select value={ruleFilter} onValueChange={setRuleFilter}>
+                        <SelectTrigger className="h-8 w-64 rounded-lg border-gray-300 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All rules</SelectItem>
+                          {resultRules.map((rule) => (
+                            <SelectItem key={rule.id} value={rule.id}>
+                              {ruleLabel(rule, resultRules)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </CardHeader>
                 <CardContent className="pt-6">
-                  <Accordion
-                    type="multiple"
-                    className="w-full"
-                    defaultValue={previewResults.map((e) => e.entryUid)}
-                  >
-                    {previewResults.map((entry, entryIndex) => {
-                      const selectedCount =
-                        selectedChanges[entry.entryUid]?.length || 0;
-                      const totalApprovable = entry.changes.filter(
-                        (c) => c.brandkit_approved !== false
-                      ).length;
-                      const isAllForEntrySelected =
-                        selectedCount === totalApprovable &&
-                        totalApprovable > 0;
-
-                      return (
-                        <AccordionItem
-                          value={entry.entryUid}
-                          key={entry.entryUid}
-                          className="border-b border-gray-200 last:border-b-0"
+                  <div className="space-y-4">
+                    {previewTypeGroups.map(([typeUid, typeEntries]) => (
+                      <div key={typeUid}>
+                        {previewTypeGroups.length > 1 && (
+                          <ContentTypeHeading
+                            title={contentTypeTitle(typeUid)}
+                            count={typeEntries.length}
+                          />
+                        )}
+                        <Accordion
+                          type="multiple"
+                          className="w-full"
+                          defaultValue={typeEntries.map((e) => e.entryUid)}
                         >
-                          <AccordionTrigger className="font-semibold text-gray-800 hover:no-underline">
-                            <div className="flex-1 text-left">
-                              <h4 className="font-bold">{entry.title}</h4>
-                              <p className="text-sm text-gray-500 font-normal">
-                                {entry.entryUid}
-                              </p>
-                            </div>
-                            {totalApprovable > 0 && (
-                              <div
-                                className="flex items-center space-x-2 pr-4"
-                                onClick={(e) => e.stopPropagation()}
+                          {typeEntries.map((entry) => {
+                            const visibleChanges = visibleChangesFor(entry);
+                            if (visibleChanges.length === 0) return null;
+                            const approvableKeys = visibleChanges
+                              .filter((change) =>
+                                isSelectable(
+                                  change,
+                                  resultMode,
+                                  resultMarkupSafe
+                                )
+                              )
+                              .flatMap(selectionKeys);
+                            const entryKeys =
+                              selectedChanges[entry.entryUid] || [];
+                            const selectedCount = approvableKeys.filter((key) =>
+                              selectedChanges[entry.entryUid]?.includes(key)
+                            ).length;
+                            const totalApprovable = approvableKeys.length;
+                            const isAllForEntrySelected =
+                              selectedCount === totalApprovable &&
+                              totalApprovable > 0;
+
+                            return (
+                              <AccordionItem
+                                value={entry.entryUid}
+                                key={entry.entryUid}
+                                className="border-b border-gray-200 last:border-b-0"
                               >
-                                <Checkbox
-                                  id={`select-all-${entry.entryUid}`}
-                                  className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
-                                  checked={isAllForEntrySelected}
-                                  onCheckedChange={(checked) =>
-                                    handleSelectAllForEntry(
-                                      entry,
-                                      Boolean(checked)
-                                    )
-                                  }
-                                />
-                                <Label
-                                  htmlFor={`select-all-${entry.entryUid}`}
-                                  className="text-sm font-medium text-gray-700"
-                                >
-                                  Select All ({selectedCount}/{totalApprovable})
-                                </Label>
-                              </div>
-                            )}
-                          </AccordionTrigger>
-                          <AccordionContent>
-                            <div className="p-2 space-y-6">
-                              {entry.changes.map((change, changeIndex) => (
-                                <div
-                                  key={changeIndex}
-                                  className="border-l-2 border-blue-200 pl-4"
-                                >
-                                  <div className="flex justify-between items-center mb-2">
-                                    <div className="flex items-center space-x-3">
-                                      {change.brandkit_approved !== false && (
-                                        <Checkbox
-                                          id={`${entry.entryUid}-${change.field}`}
-                                          className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
-                                          checked={
-                                            selectedChanges[
-                                              entry.entryUid
-                                            ]?.includes(change.field) || false
-                                          }
-                                          onCheckedChange={(checked) =>
-                                            handleToggleChangeSelection(
-                                              entry.entryUid,
-                                              change.field,
-                                              Boolean(checked)
-                                            )
-                                          }
-                                        />
-                                      )}
-                                      <p className="text-sm text-blue-600 font-mono">
-                                        {change.field}
-                                      </p>
-                                    </div>
-                                    {change.brandkit_approved !== false ? (
-                                      <Badge
-                                        variant="default"
-                                        className="bg-green-100 text-green-800 border-green-200 font-semibold px-3 rounded-full"
-                                      >
-                                        <CheckCircle className="h-3 w-3 mr-1" />{" "}
-                                        Approved
-                                      </Badge>
-                                    ) : (
-                                      <Badge
-                                        variant="destructive"
-                                        className="font-semibold px-3 rounded-full"
-                                      >
-                                        <XCircle className="h-3 w-3 mr-1" />{" "}
-                                        Rejected
-                                      </Badge>
-                                    )}
+                                <AccordionTrigger className="font-semibold text-gray-800 hover:no-underline">
+                                  <div className="flex-1 text-left">
+                                    <h4 className="font-bold">{entry.title}</h4>
+                                    <p className="text-sm text-gray-500 font-normal">
+                                      {entry.entryUid}
+                                    </p>
+                                    <ReferencedBy
+                                      parents={entry.referencedBy}
+                                    />
                                   </div>
-                                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:pl-8">
-                                    <div>
-                                      <Label className="text-xs font-semibold text-gray-500">
-                                        Before
-                                      </Label>
-                                      <div className="bg-gray-100 rounded-lg p-3 mt-1 border border-gray-200">
-                                        <p className="text-sm font-mono whitespace-pre-wrap text-gray-700">
-                                          {change.before}
-                                        </p>
-                                      </div>
-                                    </div>
-                                    <div>
-                                      <Label className="text-xs font-semibold text-gray-500">
-                                        After
-                                      </Label>
-                                      <div
-                                        className={`rounded-lg p-3 mt-1 border
-                                          ${
-                                            change.brandkit_approved !== false
-                                              ? "bg-green-50 border-green-200"
-                                              : "bg-red-50 border-red-200"
-                                          }
-                                        `}
+                                  {totalApprovable > 0 && (
+                                    <div
+                                      className="flex items-center space-x-2 pr-4"
+                                      onClick={(e) => e.stopPropagation()}
+                                    >
+                                      <Checkbox
+                                        id={`select-all-${entry.entryUid}`}
+                                        className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                                        checked={isAllForEntrySelected}
+                                        onCheckedChange={(checked) =>
+                                          handleSelectAllForEntry(
+                                            entry,
+                                            visibleChanges,
+                                            Boolean(checked)
+                                          )
+                                        }
+                                      />
+                                      <Label
+                                        htmlFor={`select-all-${entry.entryUid}`}
+                                        className="text-sm font-medium text-gray-700"
                                       >
-                                        <p className="text-sm font-mono whitespace-pre-wrap text-gray-700">
-                                          {change.after}
-                                        </p>
-                                      </div>
+                                        Select All ({selectedCount}/
+                                        {totalApprovable})
+                                      </Label>
                                     </div>
+                                  )}
+                                </AccordionTrigger>
+                                <AccordionContent>
+                                  <div className="p-2 space-y-6">
+                                    {visibleChanges.map(
+                                      (change, changeIndex) => {
+                                        const keys = selectionKeys(change);
+                                        const selectedKeys = keys.filter(
+                                          (key) => entryKeys.includes(key)
+                                        );
+                                        const occurrences =
+                                          fieldOccurrences(change);
+                                        return (
+                                          <div
+                                            key={changeIndex}
+                                            className="border-l-2 border-blue-200 pl-4"
+                                          >
+                                            <div className="flex justify-between items-center mb-2">
+                                              <div className="flex items-center space-x-3">
+                                                {isSelectable(
+                                                  change,
+                                                  resultMode,
+                                                  resultMarkupSafe
+                                                ) && (
+                                                  <Checkbox
+                                                    id={`${
+                                                      entry.entryUid
+                                                    }-${changeKey(change)}`}
+                                                    className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                                                    checked={
+                                                      selectedKeys.length ===
+                                                      keys.length
+                                                        ? true
+                                                        : selectedKeys.length >
+                                                          0
+                                                        ? "indeterminate"
+                                                        : false
+                                                    }
+                                                    onCheckedChange={(
+                                                      checked
+                                                    ) =>
+                                                      handleToggleChangeSelection(
+                                                        entry.entryUid,
+                                                        keys,
+                                                        checked === true
+                                                      )
+                                                    }
+                                                  />
+                                                )}
+                                                <FieldLocation
+                                                  value={change}
+                                                  nodes={fieldTree}
+                                                  className="text-sm"
+                                                />
+                                                <FormatBadge
+                                                  value={change.before}
+                                                />
+                                                <LocaleBadge
+                                                  code={change.locale}
+                                                  locales={locales}
+                                                />
+                                                {change.edited && (
+                                                  <Badge
+                                                    variant="outline"
+                                                    className="rounded-full text-xs font-medium text-amber-800 border-amber-200 bg-amber-50"
+                                                  >
+                                                    <Pencil className="h-3 w-3 mr-1" />
+                                                    Edited
+                                                  </Badge>
+                                                )}
+                                                {!resultSmart &&
+                                                  !change.edited && (
+                                                    <CasePatternBadge
+                                                      change={change}
+                                                      rule={ruleFor(change)}
+                                                    />
+                                                  )}
+                                                {resultRuleById[
+                                                  change.ruleId
+                                                ] && (
+                                                  <Badge
+                                                    variant="outline"
+                                                    className="rounded-full text-xs font-mono text-gray-600"
+                                                  >
+                                                    {ruleLabel(
+                                                      resultRuleById[
+                                                        change.ruleId
+                                                      ],
+                                                      resultRules
+                                                    )}
+                                                  </Badge>
+                                                )}
+                                              </div>
+                                              {change.validating ? (
+                                                <Badge
+                                                  variant="outline"
+                                                  className="text-gray-600 border-gray-300 font-semibold px-3 rounded-full"
+                                                >
+                                                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />{" "}
+                                                  Validating
+                                                </Badge>
+                                              ) : change.brandkit_approved !==
+                                                false ? (
+                                                <Badge
+                                                  variant="default"
+                                                  className="bg-green-100 text-green-800 border-green-200 font-semibold px-3 rounded-full"
+                                                >
+                                                  <CheckCircle className="h-3 w-3 mr-1" />{" "}
+                                                  Approved
+                                                </Badge>
+                                              ) : (
+                                                <Badge
+                                                  variant="destructive"
+                                                  className="font-semibold px-3 rounded-full"
+                                                >
+                                                  <XCircle className="h-3 w-3 mr-1" />{" "}
+                                                  Rejected
+                                                </Badge>
+                                              )}
+                                            </div>
+                                            {markupIssue(
+                                              change,
+                                              resultMode,
+                                              resultMarkupSafe
+                                            ) && (
+                                              <p className="flex items-center gap-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-2 md:ml-8">
+                                                <AlertTriangle className="h-4 w-4" />
+                                                {markupIssue(
+                                                  change,
+                                                  resultMode,
+                                                  resultMarkupSafe
+                                                )}{" "}
+                                                This change cannot be applied.
+                                              </p>
+                                            )}
+                                            {resultMode === "links" ? (
+                                              <div className="md:pl-8">
+                                                <LinkPairList
+                                                  pairs={
+                                                    change.links ||
+                                                    linkPairs(
+                                                      change.before,
+                                                      change.after
+                                                    )
+                                                  }
+                                                />
+                                              </div>
+                                            ) : resultMode === "terms" ? (
+                                              <div className="md:pl-8">
+                                                <TermChange
+                                                  from={change.before}
+                                                  to={change.after || null}
+                                                />
+                                              </div>
+                                            ) : (
+                                              <DiffView
+                                                before={
+                                                  showMarkup
+                                                    ? stringifyValue(
+                                                        change.before
+                                                      )
+                                                    : richTextToPlain(
+                                                        change.before
+                                                      )
+                                                }
+                                                after={
+                                                  showMarkup
+                                                    ? stringifyValue(
+                                                        valueForSelection(
+                                                          change,
+                                                          entryKeys
+                                                        )
+                                                      )
+                                                    : richTextToPlain(
+                                                        valueForSelection(
+                                                          change,
+                                                          entryKeys
+                                                        )
+                                                      )
+                                                }
+                                                layout={diffLayout}
+                                                className={`md:ml-8 ${
+                                                  isSelectable(
+                                                    change,
+                                                    resultMode,
+                                                    resultMarkupSafe
+                                                  )
+                                                    ? "bg-white border-gray-200"
+                                                    : "bg-red-50 border-red-200"
+                                                }`}
+                                              />
+                                            )}
+                                            {resultMode === "text" &&
+                                              change.alternatives?.length >
+                                                1 && (
+                                                <div className="mt-3 md:pl-8">
+                                                  <SuggestionPicker
+                                                    id={`${
+                                                      entry.entryUid
+                                                    }-${changeKey(change)}`}
+                                                    suggestions={
+                                                      change.alternatives
+                                                    }
+                                                    chosen={
+                                                      change.edited
+                                                        ? -1
+                                                        : change.chosenAlternative ??
+                                                          0
+                                                    }
+                                                    onChoose={(index) =>
+                                                      handleChooseAlternative(
+                                                        entry.entryUid,
+                                                        change,
+                                                        index
+                                                      )
+                                                    }
+                                                    format={(value) =>
+                                                      showMarkup
+                                                        ? value
+                                                        : richTextToPlain(value)
+                                                    }
+                                                    disabled={
+                                                      change.validating ||
+                                                      change.regenerating
+                                                    }
+                                                  />
+                                                </div>
+                                              )}
+                                            {resultMode === "text" && (
+                                              <div className="mt-2 flex flex-wrap items-start gap-2 md:pl-8">
+                                                {typeof valueForSelection(
+                                                  change,
+                                                  entryKeys
+                                                ) === "string" && (
+                                                  <AfterEditor
+                                                    value={valueForSelection(
+                                                      change,
+                                                      entryKeys
+                                                    )}
+                                                    disabled={
+                                                      change.validating ||
+                                                      change.regenerating
+                                                    }
+                                                    onSave={(text) =>
+                                                      handleEditChange(
+                                                        entry,
+                                                        change,
+                                                        text
+                                                      )
+                                                    }
+                                                  />
+                                                )}
+                                                {resultSmart && (
+                                                  <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    disabled={
+                                                      change.validating ||
+                                                      change.regenerating
+                                                    }
+                                                    onClick={() =>
+                                                      handleRegenerate(
+                                                        entry,
+                                                        change
+                                                      )
+                                                    }
+                                                    className="h-7 px-2 text-xs text-purple-600 hover:text-purple-700"
+                                                  >
+                                                    {change.regenerating ? (
+                                                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                                                    ) : (
+                                                      <RefreshCw className="mr-1 h-3 w-3" />
+                                                    )}
+                                                    Regenerate
+                                                  </Button>
+                                                )}
+                                              </div>
+                                            )}
+                                            {occurrences?.length > 1 && (
+                                              <div className="mt-3 md:pl-8">
+                                                <OccurrenceList
+                                                  id={`${
+                                                    entry.entryUid
+                                                  }-${changeKey(change)}`}
+                                                  value={change.before}
+                                                  occurrences={occurrences}
+                                                  disabled={
+                                                    !isSelectable(
+                                                      change,
+                                                      resultMode,
+                                                      resultMarkupSafe
+                                                    )
+                                                  }
+                                                  isSelected={(index) =>
+                                                    entryKeys.includes(
+                                                      keys[index]
+                                                    )
+                                                  }
+                                                  onToggle={(index, checked) =>
+                                                    handleToggleChangeSelection(
+                                                      entry.entryUid,
+                                                      [keys[index]],
+                                                      checked
+                                                    )
+                                                  }
+                                                />
+                                              </div>
+                                            )}
+                                          </div>
+                                        );
+                                      }
+                                    )}
                                   </div>
-                                </div>
-                              ))}
-                            </div>
-                          </AccordionContent>
-                        </AccordionItem>
-                      );
-                    })}
-                  </Accordion>
+                                </AccordionContent>
+                              </AccordionItem>
+                            );
+                          })}
+                        </Accordion>
+                      </div>
+                    ))}
+                  </div>
+                  <LoadMore
+                    page={previewPage}
+                    shown={previewResults.length}
+                    noun="entries"
+                    loading={loading}
+                    onLoadMore={handlePreview}
+                  />
                   <div className="mt-8 border-t border-gray-200 pt-6 flex gap-3">
                     <Button
                       onClick={handleApply}
@@ -929,6 +3088,36 @@ export default function FindReplace() {
                                       <p className="text-sm text-gray-500">
                                         {result.entryUid}
                                       </p>
+                                      <div className="flex flex-wrap gap-1">
+                                        {appliedLocalesFor(result.entryUid).map(
+                                          (code) => (
+                                            <LocaleBadge
+                                              key={code}
+                                              code={code}
+                                              locales={locales}
+                                            />
+                                          )
+                                        )}
+                                      </div>
+                                      {chosenAlternativesFor(
+                                        result.entryUid
+                                      ).map((change) => (
+                                        <p
+                                          key={changeKey(change)}
+                                          className="flex items-center gap-1 text-xs text-purple-700"
+                                        >
+                                          <Sparkles className="h-3 w-3" />
+                                          {change.path || change.field}:{" "}
+                                          {change.edited
+                                            ? "edited suggestion"
+                                            : `suggestion ${
+                                                (change.chosenAlternative ??
+                                                  0) + 1
+                                              } of ${
+                                                change.alternatives.length
+                                              }`}
+                                        </p>
+                                      ))}
                                     </div>
                                     <Badge
                                       variant="default"
@@ -964,6 +3153,17 @@ export default function FindReplace() {
                                         {result.entryUid}
                                       </Badge>
                                     </div>
+                                    <div className="flex flex-wrap gap-1">
+                                      {appliedLocalesFor(result.entryUid).map(
+                                        (code) => (
+                                          <LocaleBadge
+                                            key={code}
+                                            code={code}
+                                            locales={locales}
+                                          />
+                                        )
+                                      )}
+                                    </div>
                                     <p className="text-sm text-red-700 font-mono mt-2">
                                       {result.error ||
                                         "An unknown error occurred."}
@@ -0,0 +1,96 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Eye, X } from "lucide-react";
+import type { GlossaryIssueKind, GlossaryParseResult } from "@/lib/glossary";
+
+const ISSUE_LABELS: Record<GlossaryIssueKind, string> = {
+  malformed: "Malformed",
+  duplicate: "Duplicate",
+  "empty-replacement": "Empty replacement",
+};
+
+const ISSUE_STYLES: Record<GlossaryIssueKind, string> = {
+  malformed: "bg-red-50 text-red-700 border-red-200",
+  duplicate: "bg-amber-50 text-amber-800 border-amber-200",
+  "empty-replacement": "bg-gray-100 text-gray-700 border-gray-300",
+};
+
+export default function GlossaryReport({
+  report,
+  canPreview,
+  onPreview,
+  onDismiss,
+}: {
+  report: GlossaryParseResult;
+  canPreview: boolean;
+  onPreview: () => void;
+  onDismiss: () => void;
+}) {
+  const counts = report.issues.reduce((acc, issue) => {
+    acc[issue.kind] = (acc[issue.kind] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<GlossaryIssueKind, number>>);
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          <CheckCircle className="h-4 w-4 text-green-600" />
+          Imported {report.rules.length} rule
+          {report.rules.length === 1 ? "" : "s"} from {report.fileName}
+        </p>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Dismiss import report"
+          onClick={onDismiss}
+          className="h-6 w-6 text-gray-500"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {report.issues.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(counts) as GlossaryIssueKind[]).map((kind) => (
+              <Badge
+                key={kind}
+                variant="outline"
+                className={`rounded-full font-medium ${ISSUE_STYLES[kind]}`}
+              >
+                {ISSUE_LABELS[kind]}: {counts[kind]}
+              </Badge>
+            ))}
+          </div>
+          <ul className="max-h-40 overflow-y-auto space-y-1 text-xs text-gray-600">
+            {report.issues.map((issue, index) => (
+              <li key={index} className="font-mono">
+                <span className="text-gray-400">Row {issue.row}:</span>{" "}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {report.rules.length > 0 && (
+        <div className="space-y-1">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onPreview}
+            disabled={!canPreview}
+            className="w-full rounded-lg border-gray-300 text-gray-700"
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            Preview Glossary
+          </Button>
+          {!canPreview && (
+            <p className="text-xs text-gray-500">
+              Select entries and fill in every replacement to preview.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
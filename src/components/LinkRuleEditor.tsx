@@ -0,0 +1,138 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowRight, Plus, Trash2 } from "lucide-react";
+import {
+  type LinkPair,
+  type LinkRule,
+  type LinkSource,
+  createLinkRule,
+  validateLinkRule,
+} from "@/lib/links";
+
+export default function LinkRuleEditor({
+  rules,
+  onChange,
+}: {
+  rules: LinkRule[];
+  onChange: (rules: LinkRule[]) => void;
+}) {
+  const updateRule = (id: string, patch: Partial<LinkRule>) => {
+    onChange(
+      rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule))
+    );
+  };
+
+  const removeRule = (id: string) => {
+    const remaining = rules.filter((rule) => rule.id !== id);
+    onChange(remaining.length > 0 ? remaining : [createLinkRule()]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 px-1">
+        <Label className="text-sm font-semibold text-gray-700">
+          Old Prefix
+        </Label>
+        <span className="w-4" />
+        <Label className="text-sm font-semibold text-gray-700">
+          New Prefix
+        </Label>
+        <span className="w-9" />
+      </div>
+      <div className="max-h-[28rem] overflow-y-auto space-y-3 pr-1">
+        {rules.map((rule, index) => {
+          const { fromError, toError } = validateLinkRule(rule);
+          return (
+            <div key={rule.id} className="space-y-1">
+              <div className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center">
+                <Input
+                  aria-label={`Old URL prefix (mapping ${index + 1})`}
+                  placeholder="old.example.com/blog"
+                  value={rule.from}
+                  onChange={(e) =>
+                    updateRule(rule.id, { from: e.target.value })
+                  }
+                  aria-invalid={Boolean(fromError)}
+                  className={`rounded-lg border-gray-300 font-mono text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors
+                    ${fromError ? "border-red-400" : ""}
+                  `}
+                />
+                <ArrowRight className="h-4 w-4 text-gray-400" />
+                <Input
+                  aria-label={`New URL prefix (mapping ${index + 1})`}
+                  placeholder="https://www.example.com/articles"
+                  value={rule.to}
+                  onChange={(e) => updateRule(rule.id, { to: e.target.value })}
+                  aria-invalid={Boolean(toError)}
+                  className={`rounded-lg border-gray-300 font-mono text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors
+                    ${toError ? "border-red-400" : ""}
+                  `}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove mapping ${index + 1}`}
+                  onClick={() => removeRule(rule.id)}
+                  className="h-9 w-9 rounded-lg text-gray-500 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {(fromError || toError) && (
+                <p className="text-xs text-red-600">{fromError || toError}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rules, createLinkRule()])}
+        className="rounded-lg border-dashed border-gray-300 text-gray-600 hover:text-blue-600"
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add Mapping
+      </Button>
+      <p className="text-xs text-gray-500">
+        Link fields, rich text anchors and Markdown links under an old prefix
+        are rewritten to the new one. The rest of the path, the query string and
+        the fragment are kept.
+      </p>
+    </div>
+  );
+}
+
+const SOURCE_LABELS: Record<LinkSource, string> = {
+  link: "Link field",
+  html: "RTE anchor",
+  markdown: "Markdown",
+  text: "Text",
+};
+
+export const LinkPairList = ({ pairs }: { pairs: LinkPair[] }) => (
+  <div className="space-y-2">
+    {pairs.map((pair, index) => (
+      <div
+        key={index}
+        className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr_auto] gap-2 items-center rounded-lg border border-gray-200 bg-white p-2"
+      >
+        <p className="text-sm font-mono break-all text-red-700 line-through decoration-red-300">
+          {pair.before}
+        </p>
+        <ArrowRight className="h-4 w-4 text-gray-400 hidden md:block" />
+        <p className="text-sm font-mono break-all text-green-700">
+          {pair.after}
+        </p>
+        <Badge
+          variant="outline"
+          className="rounded-full text-xs font-medium text-gray-600 border-gray-300 justify-self-start"
+        >
+          {SOURCE_LABELS[pair.source]}
+        </Badge>
+      </div>
+    ))}
+  </div>
+);
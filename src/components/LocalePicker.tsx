@@ -0,0 +1,80 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { Locale } from "@/lib/locales";
+
+export default function LocalePicker({
+  locales,
+  selected,
+  onChange,
+}: {
+  locales: Locale[];
+  selected: string[];
+  onChange: (codes: string[]) => void;
+}) {
+  const toggle = (code: string, checked: boolean) => {
+    onChange(
+      checked ? [...selected, code] : selected.filter((c) => c !== code)
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold text-gray-700">
+          Locales (
+          {selected.length > 0
+            ? `${selected.length} / ${locales.length} selected`
+            : "master locale only"}
+          )
+        </Label>
+        <div className="flex gap-3 text-xs font-medium">
+          <button
+            type="button"
+            onClick={() => onChange(locales.map((locale) => locale.code))}
+            className="text-blue-600 hover:underline"
+          >
+            All
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="text-blue-600 hover:underline"
+          >
+            None
+          </button>
+        </div>
+      </div>
+      <div className="border border-gray-300 rounded-lg overflow-hidden">
+        <ScrollArea className={locales.length > 5 ? "h-40" : ""}>
+          <div className="p-1">
+            {locales.map((locale) => (
+              <div
+                key={locale.code}
+                className="flex items-center space-x-2 px-2 py-1.5 hover:bg-gray-100 transition-colors duration-200 rounded-md"
+              >
+                <Checkbox
+                  id={`locale-${locale.code}`}
+                  className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                  checked={selected.includes(locale.code)}
+                  onCheckedChange={(checked) =>
+                    toggle(locale.code, Boolean(checked))
+                  }
+                />
+                <Label
+                  htmlFor={`locale-${locale.code}`}
+                  className="flex-1 font-normal text-sm cursor-pointer text-gray-600"
+                >
+                  {locale.name}
+                </Label>
+                <span className="text-xs font-mono text-gray-400">
+                  {locale.code}
+                </span>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Fragment, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { type Span, snippetWindows } from "@/lib/occurrences";
+
+const Highlighted = ({
+  text,
+  spans,
+  offset = 0,
+}: {
+  text: string;
+  spans: Span[];
+  offset?: number;
+}) => {
+  let cursor = 0;
+  return (
+    <>
+      {spans.map((span, index) => {
+        const start = span.start - offset;
+        const end = span.end - offset;
+        const plain = text.slice(cursor, start);
+        cursor = end;
+        return (
+          <Fragment key={index}>
+            {plain}
+            <mark className="rounded-sm bg-yellow-200 px-0.5 text-gray-900">
+              {text.slice(start, end)}
+            </mark>
+          </Fragment>
+        );
+      })}
+      {text.slice(cursor)}
+    </>
+  );
+};
+
+// Scan match shown as snippets of `context` characters around each
+// occurrence, with the whole field available on demand. Without located
+// occurrences the whole field is shown.
+export default function MatchSnippets({
+  text,
+  spans,
+  context,
+}: {
+  text: string;
+  spans: Span[];
+  context: number;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const windows = snippetWindows(text, spans, context);
+  const clipped =
+    windows.length > 0 &&
+    (windows[0].from > 0 || windows[windows.length - 1].to < text.length);
+
+  return (
+    <div className="bg-gray-100 rounded-lg p-3 border border-gray-200 shadow-inner space-y-2">
+      {expanded || windows.length === 0 ? (
+        <p className="text-sm font-mono whitespace-pre-wrap text-gray-700">
+          <Highlighted text={text} spans={spans} />
+        </p>
+      ) : (
+        windows.map((window) => (
+          <p
+            key={window.from}
+            className="text-sm font-mono whitespace-pre-wrap text-gray-700"
+          >
+            {window.from > 0 && "…"}
+            <Highlighted
+              text={text.slice(window.from, window.to)}
+              spans={window.spans}
+              offset={window.from}
+            />
+            {window.to < text.length && "…"}
+          </p>
+        ))
+      )}
+      {(clipped || expanded) && (
+        <Button
+          variant="link"
+          size="sm"
+          onClick={() => setExpanded(!expanded)}
+          className="h-auto p-0 text-xs text-blue-600"
+        >
+          {expanded ? "Show snippets" : "Expand full field"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { type Occurrence, occurrenceSnippet } from "@/lib/occurrences";
+
+export default function OccurrenceList({
+  id,
+  value,
+  occurrences,
+  isSelected,
+  onToggle,
+  disabled = false,
+}: {
+  id: string;
+  value: string;
+  occurrences: Occurrence[];
+  isSelected: (index: number) => boolean;
+  onToggle: (index: number, checked: boolean) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs font-semibold text-gray-500">
+        Occurrences ({occurrences.filter((_, i) => isSelected(i)).length}/
+        {occurrences.length} approved)
+      </Label>
+      <ul className="space-y-1">
+        {occurrences.map((occurrence, index) => {
+          const snippet = occurrenceSnippet(value, occurrence);
+          const checked = isSelected(index);
+          return (
+            <li
+              key={`${occurrence.start}-${occurrence.end}`}
+              className="flex items-start gap-2 rounded-lg border border-gray-200 bg-white px-3 py-2"
+            >
+              <Checkbox
+                id={`${id}-${index}`}
+                className="mt-0.5 rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                checked={checked}
+                disabled={disabled}
+                onCheckedChange={(value) => onToggle(index, Boolean(value))}
+              />
+              <label
+                htmlFor={`${id}-${index}`}
+                className="text-sm font-mono text-gray-600 cursor-pointer"
+              >
+                {snippet.clippedStart && "…"}
+                {snippet.before}
+                <span className="rounded bg-red-100 px-0.5 text-red-700 line-through decoration-red-300">
+                  {snippet.match}
+                </span>
+                <span
+                  className={`rounded px-0.5 ${
+                    checked
+                      ? "bg-green-100 text-green-800"
+                      : "bg-gray-100 text-gray-400"
+                  }`}
+                >
+                  {occurrence.replacement}
+                </span>
+                {snippet.after}
+                {snippet.clippedEnd && "…"}
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,464 @@
+import { useRef } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  AlertTriangle,
+  CaseSensitive,
+  CaseUpper,
+  Plus,
+  Regex,
+  SlidersHorizontal,
+  SpellCheck,
+  Trash2,
+  Upload,
+  WholeWord,
+} from "lucide-react";
+import {
+  type MatchOptions,
+  type UnicodeNormalization,
+  MAX_FUZZY_DISTANCE,
+  describeMatchOptions,
+} from "@/lib/match-options";
+import {
+  type Rule,
+  createRule,
+  detectRuleConflicts,
+  validateRule,
+} from "@/lib/rules";
+import {
+  type CasePattern,
+  CASE_PATTERN_LABELS,
+  applyCasePattern,
+} from "@/lib/case";
+import type { Locale } from "@/lib/locales";
+
+const OPTION_TOGGLES = [
+  {
+    value: "regex",
+    label: "Use regular expression",
+    icon: <Regex className="h-4 w-4" />,
+  },
+  {
+    value: "caseSensitive",
+    label: "Match case",
+    icon: <CaseSensitive className="h-4 w-4" />,
+  },
+  {
+    value: "wholeWord",
+    label: "Match whole word",
+    icon: <WholeWord className="h-4 w-4" />,
+  },
+  {
+    value: "ignoreDiacritics",
+    label: "Ignore accents (é matches e)",
+    icon: <span className="text-sm font-semibold">é</span>,
+  },
+  {
+    value: "preserveCase",
+    label: "Preserve case of each match (ignored by Smart Replace)",
+    icon: <CaseUpper className="h-4 w-4" />,
+  },
+  {
+    value: "fuzzy",
+    label: "Fuzzy match misspellings and spacing variants",
+    icon: <SpellCheck className="h-4 w-4" />,
+  },
+] as const;
+
+// Regex and fuzzy matching are exclusive; turning one on turns the other off.
+const toggleOptions = (options: MatchOptions, value: string[]) => {
+  const next = {
+    ...options,
+    regex: value.includes("regex"),
+    caseSensitive: value.includes("caseSensitive"),
+    wholeWord: value.includes("wholeWord"),
+    ignoreDiacritics: value.includes("ignoreDiacritics"),
+    preserveCase: value.includes("preserveCase"),
+    fuzzy: value.includes("fuzzy"),
+  };
+  if (next.regex && next.fuzzy) {
+    if (options.regex) next.regex = false;
+    else next.fuzzy = false;
+  }
+  return next;
+};
+
+const CASE_EXAMPLES: CasePattern[] = ["lower", "upper", "title", "camel"];
+
+export const MatchOptionBadges = ({ options }: { options: MatchOptions }) => {
+  const labels = describeMatchOptions(options);
+  if (labels.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {labels.map((label) => (
+        <Badge
+          key={label}
+          variant="outline"
+          className="text-blue-700 border-blue-200 bg-blue-50 rounded-full font-medium"
+        >
+          {label}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+const MatchOptionsControls = ({
+  options,
+  replacement,
+  onChange,
+}: {
+  options: MatchOptions;
+  replacement: string;
+  onChange: (options: MatchOptions) => void;
+}) => (
+  <div className="space-y-3">
+    <ToggleGroup
+      type="multiple"
+      variant="outline"
+      size="sm"
+      className="justify-start"
+      value={OPTION_TOGGLES.map((t) => t.value).filter((key) => options[key])}
+      onValueChange={(value) => onChange(toggleOptions(options, value))}
+    >
+      {OPTION_TOGGLES.map((option) => (
+        <ToggleGroupItem
+          key={option.value}
+          value={option.value}
+          aria-label={option.label}
+          title={option.label}
+          className="rounded-lg border-gray-300 data-[state=on]:bg-blue-50 data-[state=on]:text-blue-700 data-[state=on]:border-blue-400"
+        >
+          {option.icon}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+    <div className="flex items-center justify-between gap-2">
+      <Label className="text-xs font-medium text-gray-500">
+        Unicode normalization
+      </Label>
+      <Select
+        value={options.normalization}
+        onValueChange={(value) =>
+          onChange({
+            ...options,
+            normalization: value as UnicodeNormalization,
+          })
+        }
+      >
+        <SelectTrigger className="h-8 w-28 rounded-lg border-gray-300 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">None</SelectItem>
+          <SelectItem value="NFC">NFC</SelectItem>
+          <SelectItem value="NFKC">NFKC</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+    {options.fuzzy && (
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs font-medium text-gray-500">
+          Max edit distance
+        </Label>
+        <Select
+          value={String(options.maxDistance)}
+          onValueChange={(value) =>
+            onChange({ ...options, maxDistance: Number(value) })
+          }
+        >
+          <SelectTrigger className="h-8 w-28 rounded-lg border-gray-300 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: MAX_FUZZY_DISTANCE }, (_, i) => i + 1).map(
+              (distance) => (
+                <SelectItem key={distance} value={String(distance)}>
+                  {distance} {distance === 1 ? "edit" : "edits"}
+                </SelectItem>
+              )
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+    )}
+    {options.preserveCase && replacement && (
+      <div className="space-y-1 border-t border-gray-200 pt-3">
+        <Label className="text-xs font-medium text-gray-500">
+          Case preservation
+        </Label>
+        {CASE_EXAMPLES.map((pattern) => (
+          <p key={pattern} className="text-xs font-mono text-gray-600">
+            {CASE_PATTERN_LABELS[pattern]} →{" "}
+            {applyCasePattern(replacement, pattern)}
+          </p>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const LocaleReplacements = ({
+  rule,
+  locales,
+  onChange,
+}: {
+  rule: Rule;
+  locales: Locale[];
+  onChange: (localeReplacements: Record<string, string>) => void;
+}) => (
+  <div className="space-y-2 border-t border-gray-200 pt-3">
+    <Label className="text-xs font-medium text-gray-500">
+      Replacement per locale
+    </Label>
+    {locales.map((locale) => (
+      <div key={locale.code} className="flex items-center gap-2">
+        <span className="w-16 shrink-0 text-xs font-mono text-gray-500">
+          {locale.code}
+        </span>
+        <Input
+          aria-label={`Replacement for ${locale.name}`}
+          placeholder={rule.replace || "Replacement..."}
+          value={rule.localeReplacements?.[locale.code] ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...rule.localeReplacements,
+              [locale.code]: e.target.value,
+            })
+          }
+          className="h-8 rounded-lg border-gray-300 text-xs"
+        />
+      </div>
+    ))}
+  </div>
+);
+
+export default function RuleEditor({
+  rules,
+  locales = [],
+  onChange,
+  onImport,
+}: {
+  rules: Rule[];
+  // Locales being scanned; with more than one, each rule can carry a
+  // different replacement per locale.
+  locales?: Locale[];
+  onChange: (rules: Rule[]) => void;
+  onImport: (file: File) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const conflicts = detectRuleConflicts(rules);
+  const conflictingIds = new Set(conflicts.flatMap((c) => c.ruleIds));
+
+  const updateRule = (id: string, patch: Partial<Rule>) => {
+    onChange(
+      rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule))
+    );
+  };
+
+  const removeRule = (id: string) => {
+    const remaining = rules.filter((rule) => rule.id !== id);
+    onChange(remaining.length > 0 ? remaining : [createRule()]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2 px-1">
+        <Label className="text-sm font-semibold text-gray-700">Find</Label>
+        <Label className="text-sm font-semibold text-gray-700">
+          Replace With
+        </Label>
+        <span className="w-20" />
+      </div>
+      <div className="max-h-[28rem] overflow-y-auto space-y-3 pr-1">
+        {rules.map((rule, index) => {
+          const { findError, replaceError } = validateRule(rule);
+          return (
+            <div
+              key={rule.id}
+              className={`space-y-1 rounded-lg p-1
+                ${conflictingIds.has(rule.id) ? "bg-amber-50" : ""}
+              `}
+            >
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                <Input
+                  aria-label={`Find (rule ${index + 1})`}
+                  placeholder={
+                    rule.options.regex
+                      ? "Regular expression..."
+                      : "Text to find..."
+                  }
+                  value={rule.find}
+                  onChange={(e) =>
+                    updateRule(rule.id, { find: e.target.value })
+                  }
+                  aria-invalid={Boolean(findError)}
+                  className={`rounded-lg border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors
+                    ${rule.options.regex ? "font-mono" : ""}
+                    ${
+                      findError
+                        ? "border-red-400 focus:border-red-500 focus:ring-red-500/20"
+                        : ""
+                    }
+                  `}
+                />
+                <Input
+                  aria-label={`Replace with (rule ${index + 1})`}
+                  placeholder="Replacement..."
+                  value={rule.replace}
+                  onChange={(e) =>
+                    updateRule(rule.id, { replace: e.target.value })
+                  }
+                  aria-invalid={Boolean(replaceError)}
+                  className={`rounded-lg border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors
+                    ${rule.options.regex ? "font-mono" : ""}
+                    ${
+                      replaceError
+                        ? "border-red-400 focus:border-red-500 focus:ring-red-500/20"
+                        : ""
+                    }
+                  `}
+                />
+                <div className="flex w-20 justify-end gap-1">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Match options (rule ${index + 1})`}
+                        className={`h-9 w-9 rounded-lg ${
+                          describeMatchOptions(rule.options).length > 0
+                            ? "text-blue-700 bg-blue-50"
+                            : "text-gray-500"
+                        }`}
+                      >
+                        <SlidersHorizontal className="h-4 w-4" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent align="end" className="w-64 rounded-xl">
+                      <MatchOptionsControls
+                        options={rule.options}
+                        replacement={rule.replace}
+                        onChange={(options) => updateRule(rule.id, { options })}
+                      />
+                      {locales.length > 1 && (
+                        <LocaleReplacements
+                          rule={rule}
+                          locales={locales}
+                          onChange={(localeReplacements) =>
+                            updateRule(rule.id, { localeReplacements })
+                          }
+                        />
+                      )}
+                    </PopoverContent>
+                  </Popover>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove rule ${index + 1}`}
+                    onClick={() => removeRule(rule.id)}
+                    className="h-9 w-9 rounded-lg text-gray-500 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <MatchOptionBadges options={rule.options} />
+              {locales.length > 1 &&
+                Object.entries(rule.localeReplacements ?? {})
+                  .filter(([, text]) => text.trim())
+                  .map(([code, text]) => (
+                    <p key={code} className="text-xs text-gray-500 px-1">
+                      <span className="font-mono">{code}</span> → {text}
+                    </p>
+                  ))}
+              {rule.notes && (
+                <p className="text-xs italic text-gray-500 px-1">
+                  {rule.notes}
+                </p>
+              )}
+              {findError && (
+                <p className="text-xs text-red-600 font-mono">{findError}</p>
+              )}
+              {replaceError && (
+                <p className="text-xs text-red-600 font-mono">{replaceError}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rules, createRule()])}
+          className="rounded-lg border-dashed border-gray-300 text-gray-600 hover:text-blue-600"
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add Rule
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          className="rounded-lg border-dashed border-gray-300 text-gray-600 hover:text-blue-600"
+        >
+          <Upload className="mr-1 h-4 w-4" />
+          Import Glossary
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        Or drop a CSV/JSON glossary (find, replace, options, notes) onto this
+        card.
+      </p>
+      {rules.some((rule) => rule.options.regex) && (
+        <p className="text-xs text-gray-500">
+          Regex rules can reference capture groups with <code>$1</code> or{" "}
+          <code>{"$<name>"}</code>.
+        </p>
+      )}
+      {conflicts.length > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-1">
+          <p className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            {conflicts.length} rule conflict{conflicts.length > 1 ? "s" : ""}
+          </p>
+          <ul className="list-disc pl-5 text-xs text-amber-800 space-y-1">
+            {conflicts.map((conflict) => (
+              <li key={`${conflict.kind}-${conflict.ruleIds.join("-")}`}>
+                {conflict.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { ChevronDown } from "lucide-react";
+import { ASSETS_SOURCE } from "@/lib/assets";
+
+interface ContentTypeOption {
+  uid: string;
+  title: string;
+}
+
+const OptionRow = ({
+  id,
+  label,
+  checked,
+  onCheckedChange,
+  bold = false,
+}: {
+  id: string;
+  label: string;
+  checked: boolean | "indeterminate";
+  onCheckedChange: (checked: boolean) => void;
+  bold?: boolean;
+}) => (
+  <div className="flex items-center space-x-2 px-2 py-1.5 hover:bg-gray-100 transition-colors duration-200 rounded-md">
+    <Checkbox
+      id={id}
+      className="rounded-md border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600 data-[state=indeterminate]:bg-blue-100"
+      checked={checked}
+      onCheckedChange={(value) => onCheckedChange(value === true)}
+    />
+    <Label
+      htmlFor={id}
+      className={`w-full cursor-pointer text-sm text-gray-600 ${
+        bold ? "font-semibold" : "font-normal"
+      }`}
+    >
+      {label}
+    </Label>
+  </div>
+);
+
+// Picks one or more content types, or assets. Assets are scanned on their own
+// because their metadata has nothing in common with entry fields.
+export default function SourcePicker({
+  contentTypes,
+  selected,
+  onChange,
+}: {
+  contentTypes: ContentTypeOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) {
+  const isAssets = selected.includes(ASSETS_SOURCE);
+  const typeUids = contentTypes.map((type) => type.uid);
+  const allSelected =
+    typeUids.length > 0 && typeUids.every((uid) => selected.includes(uid));
+
+  const summary = isAssets
+    ? "Assets (title, description, alt text)"
+    : allSelected
+    ? `All content types (${typeUids.length})`
+    : selected.length === 1
+    ? contentTypes.find((type) => type.uid === selected[0])?.title ??
+      selected[0]
+    : selected.length > 1
+    ? `${selected.length} content types`
+    : "Select content types";
+
+  const toggleType = (uid: string, checked: boolean) => {
+    const types = selected.filter((s) => s !== ASSETS_SOURCE);
+    onChange(checked ? [...types, uid] : types.filter((s) => s !== uid));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={`w-full justify-between rounded-lg border-gray-300 font-normal ${
+            selected.length === 0 ? "text-muted-foreground" : ""
+          }`}
+        >
+          <span className="truncate">{summary}</span>
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-[var(--radix-popover-trigger-width)] rounded-xl p-1"
+      >
+        <OptionRow
+          id="source-all-types"
+          label="All content types"
+          bold
+          checked={
+            allSelected
+              ? true
+              : selected.length > 0 && !isAssets
+              ? "indeterminate"
+              : false
+          }
+          onCheckedChange={(checked) => onChange(checked ? typeUids : [])}
+        />
+        <ScrollArea className={contentTypes.length > 8 ? "h-64" : ""}>
+          {contentTypes.map((type) => (
+            <OptionRow
+              key={type.uid}
+              id={`source-${type.uid}`}
+              label={type.title}
+              checked={selected.includes(type.uid)}
+              onCheckedChange={(checked) => toggleType(type.uid, checked)}
+            />
+          ))}
+        </ScrollArea>
+        <Separator className="my-1" />
+        <OptionRow
+          id="source-assets"
+          label="Assets (title, description, alt text)"
+          checked={isAssets}
+          onCheckedChange={(checked) =>
+            onChange(checked ? [ASSETS_SOURCE] : [])
+          }
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
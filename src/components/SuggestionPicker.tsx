@@ -0,0 +1,81 @@
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CheckCircle, XCircle } from "lucide-react";
+
+export interface Suggestion {
+  after: string;
+  brandkit_approved?: boolean;
+}
+
+// Smart Replace alternatives for one change. The chosen one becomes the
+// change's After value; rejected ones can still be chosen but not applied.
+export default function SuggestionPicker({
+  id,
+  suggestions,
+  chosen,
+  onChoose,
+  format,
+  disabled = false,
+}: {
+  id: string;
+  suggestions: Suggestion[];
+  chosen: number;
+  onChoose: (index: number) => void;
+  format: (value: string) => string;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs font-semibold text-gray-500">
+        Suggestions ({suggestions.length})
+      </Label>
+      <RadioGroup
+        value={String(chosen)}
+        onValueChange={(value) => onChoose(Number(value))}
+        disabled={disabled}
+        className="gap-1"
+      >
+        {suggestions.map((suggestion, index) => (
+          <div
+            key={index}
+            className={`flex items-start gap-2 rounded-lg border px-3 py-2 ${
+              index === chosen
+                ? "border-purple-300 bg-purple-50"
+                : "border-gray-200 bg-white"
+            }`}
+          >
+            <RadioGroupItem
+              id={`${id}-suggestion-${index}`}
+              value={String(index)}
+              className="mt-0.5 border-gray-400 text-purple-600"
+            />
+            <Label
+              htmlFor={`${id}-suggestion-${index}`}
+              className="flex-1 text-sm font-mono font-normal whitespace-pre-wrap text-gray-700 cursor-pointer"
+            >
+              {format(suggestion.after)}
+            </Label>
+            {suggestion.brandkit_approved !== false ? (
+              <Badge
+                variant="outline"
+                className="rounded-full text-xs text-green-800 border-green-200 bg-green-100"
+              >
+                <CheckCircle className="h-3 w-3 mr-1" />
+                Approved
+              </Badge>
+            ) : (
+              <Badge
+                variant="outline"
+                className="rounded-full text-xs text-red-700 border-red-200 bg-red-50"
+              >
+                <XCircle className="h-3 w-3 mr-1" />
+                Rejected
+              </Badge>
+            )}
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
+import { ArrowRight, CaseSensitive, Plus, Tag, Trash2 } from "lucide-react";
+import {
+  type TermAction,
+  type TermChangeSummary,
+  type TermRule,
+  type Taxonomy,
+  TAGS_SOURCE,
+  TERM_ACTION_LABELS,
+  createTermRule,
+  validateTermRule,
+} from "@/lib/terms";
+
+export default function TermRuleEditor({
+  rules,
+  onChange,
+  source,
+  onSourceChange,
+  taxonomies,
+}: {
+  rules: TermRule[];
+  onChange: (rules: TermRule[]) => void;
+  source: string;
+  onSourceChange: (source: string) => void;
+  taxonomies: Taxonomy[];
+}) {
+  const updateRule = (id: string, patch: Partial<TermRule>) => {
+    onChange(
+      rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule))
+    );
+  };
+
+  const removeRule = (id: string) => {
+    const remaining = rules.filter((rule) => rule.id !== id);
+    onChange(remaining.length > 0 ? remaining : [createTermRule()]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm font-semibold text-gray-700">Terms In</Label>
+        <Select value={source} onValueChange={onSourceChange}>
+          <SelectTrigger className="rounded-lg border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={TAGS_SOURCE}>Tags</SelectItem>
+            {taxonomies.map((taxonomy) => (
+              <SelectItem key={taxonomy.uid} value={taxonomy.uid}>
+                Taxonomy: {taxonomy.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-[1fr_auto_8rem_1fr_auto] gap-2 px-1">
+        <Label className="text-sm font-semibold text-gray-700">Term</Label>
+        <span className="w-9" />
+        <Label className="text-sm font-semibold text-gray-700">Action</Label>
+        <Label className="text-sm font-semibold text-gray-700">New Term</Label>
+        <span className="w-9" />
+      </div>
+      <div className="max-h-[28rem] overflow-y-auto space-y-3 pr-1">
+        {rules.map((rule, index) => {
+          const { findError, toError } = validateTermRule(rule);
+          return (
+            <div key={rule.id} className="space-y-1">
+              <div className="grid grid-cols-[1fr_auto_8rem_1fr_auto] gap-2 items-center">
+                <Input
+                  aria-label={`Term pattern (rule ${index + 1})`}
+                  placeholder="legacy-*"
+                  value={rule.find}
+                  onChange={(e) =>
+                    updateRule(rule.id, { find: e.target.value })
+                  }
+                  aria-invalid={Boolean(findError)}
+                  className={`rounded-lg border-gray-300 font-mono text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors
+                    ${findError ? "border-red-400" : ""}
+                  `}
+                />
+                <Toggle
+                  variant="outline"
+                  aria-label={`Match case (rule ${index + 1})`}
+                  title="Match case"
+                  pressed={rule.caseSensitive}
+                  onPressedChange={(caseSensitive) =>
+                    updateRule(rule.id, { caseSensitive })
+                  }
+                  className="h-9 w-9 rounded-lg border-gray-300 data-[state=on]:bg-blue-50 data-[state=on]:text-blue-700 data-[state=on]:border-blue-400"
+                >
+                  <CaseSensitive className="h-4 w-4" />
+                </Toggle>
+                <Select
+                  value={rule.action}
+                  onValueChange={(action) =>
+                    updateRule(rule.id, { action: action as TermAction })
+                  }
+                >
+                  <SelectTrigger
+                    aria-label={`Action (rule ${index + 1})`}
+                    className="rounded-lg border-gray-300 text-sm"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TERM_ACTION_LABELS).map(
+                      ([action, label]) => (
+                        <SelectItem key={action} value={action}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label={`New term (rule ${index + 1})`}
+                  placeholder={rule.action === "remove" ? "—" : "blog-posts"}
+                  value={rule.action === "remove" ? "" : rule.to}
+                  disabled={rule.action === "remove"}
+                  onChange={(e) => updateRule(rule.id, { to: e.target.value })}
+                  aria-invalid={Boolean(toError)}
+                  className={`rounded-lg border-gray-300 font-mono text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-colors
+                    ${toError ? "border-red-400" : ""}
+                  `}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove rule ${index + 1}`}
+                  onClick={() => removeRule(rule.id)}
+                  className="h-9 w-9 rounded-lg text-gray-500 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {(findError || toError) && (
+                <p className="text-xs text-red-600">{findError || toError}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rules, createTermRule()])}
+        className="rounded-lg border-dashed border-gray-300 text-gray-600 hover:text-blue-600"
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        Add Rule
+      </Button>
+      <p className="text-xs text-gray-500">
+        Match a term by name, with * wildcards or as a /regular expression/ with
+        optional flags. Case is ignored unless Match case is on. Merging
+        replaces every matching term with one existing term; entries that
+        already have it keep a single copy.
+      </p>
+    </div>
+  );
+}
+
+export const TermChange = ({
+  from,
+  to,
+}: {
+  from: string;
+  to: string | null;
+}) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <Badge
+      variant="outline"
+      className="rounded-full font-mono text-red-700 border-red-200 bg-red-50 line-through decoration-red-300"
+    >
+      <Tag className="h-3 w-3 mr-1" />
+      {from}
+    </Badge>
+    <ArrowRight className="h-4 w-4 text-gray-400" />
+    {to === null ? (
+      <span className="text-xs font-medium text-gray-500">removed</span>
+    ) : (
+      <Badge
+        variant="outline"
+        className="rounded-full font-mono text-green-700 border-green-200 bg-green-50"
+      >
+        <Tag className="h-3 w-3 mr-1" />
+        {to}
+      </Badge>
+    )}
+  </div>
+);
+
+export const TermChangeSummaryList = ({
+  summary,
+}: {
+  summary: TermChangeSummary[];
+}) => {
+  if (summary.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-3 space-y-2">
+      <p className="text-xs font-semibold text-gray-600">
+        Term changes ({summary.length})
+      </p>
+      {summary.map((change) => (
+        <div
+          key={`${change.from}->${change.to}`}
+          className="flex items-center justify-between gap-4"
+        >
+          <TermChange from={change.from} to={change.to} />
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            {change.entries} {change.entries === 1 ? "entry" : "entries"}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import * as React from "react";
+
+const STORAGE_PREFIX = "magic-replace:fields:";
+
+const readSelection = (contentTypeUid: string): string[] | null => {
+  if (!contentTypeUid) return null;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_PREFIX + contentTypeUid);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Field paths picked for a content type, remembered across sessions.
+// `null` means no restriction: every searchable field is scanned.
+export function useFieldSelection(contentTypeUid: string) {
+  const [selection, setSelection] = React.useState<string[] | null>(() =>
+    readSelection(contentTypeUid)
+  );
+
+  React.useEffect(() => {
+    setSelection(readSelection(contentTypeUid));
+  }, [contentTypeUid]);
+
+  const updateSelection = React.useCallback(
+    (paths: string[] | null) => {
+      setSelection(paths);
+      if (!contentTypeUid) return;
+      try {
+        if (paths) {
+          window.localStorage.setItem(
+            STORAGE_PREFIX + contentTypeUid,
+            JSON.stringify(paths)
+          );
+        } else {
+          window.localStorage.removeItem(STORAGE_PREFIX + contentTypeUid);
+        }
+      } catch {
+        // Storage may be unavailable (private mode); the choice still applies
+        // for this session.
+      }
+    },
+    [contentTypeUid]
+  );
+
+  return [selection, updateSelection] as const;
+}
@@ -0,0 +1,41 @@
+import type { FieldNode } from "@/lib/schema";
+
+// Value of the source picker that selects assets instead of a content type.
+// Content type uids cannot start with "$", so it never collides with one.
+export const ASSETS_SOURCE = "$assets";
+
+export interface AssetFolder {
+  uid: string;
+  name: string;
+  parentUid: string | null;
+}
+
+// Metadata fields of an asset that can carry text. The file itself is never
+// touched.
+export const ASSET_FIELD_TREE: FieldNode[] = [
+  { path: "title", label: "Title", dataType: "text", children: [] },
+  { path: "description", label: "Description", dataType: "text", children: [] },
+  { path: "alt", label: "Alt text", dataType: "text", children: [] },
+  { path: "tags", label: "Tags", dataType: "text", children: [] },
+];
+
+// Folders in tree order with their depth, for an indented picker. Folders
+// whose parent is not listed are shown at the top level.
+export function flattenFolders(
+  folders: AssetFolder[]
+): { folder: AssetFolder; depth: number }[] {
+  const known = new Set(folders.map((folder) => folder.uid));
+  const walk = (
+    parentUid: string | null,
+    depth: number
+  ): { folder: AssetFolder; depth: number }[] =>
+    folders
+      .filter((folder) =>
+        parentUid === null
+          ? !folder.parentUid || !known.has(folder.parentUid)
+          : folder.parentUid === parentUid
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .flatMap((folder) => [{ folder, depth }, ...walk(folder.uid, depth + 1)]);
+  return walk(null, 0);
+}
@@ -0,0 +1,104 @@
+import type { MatchOptions } from "@/lib/match-options";
+import { buildMatcher, foldText } from "@/lib/matcher";
+
+export type CasePattern =
+  | "lower"
+  | "upper"
+  | "title"
+  | "sentence"
+  | "camel"
+  | "pascal"
+  | "mixed";
+
+export const CASE_PATTERN_LABELS: Record<CasePattern, string> = {
+  lower: "lowercase",
+  upper: "UPPERCASE",
+  title: "Title Case",
+  sentence: "Sentence case",
+  camel: "camelCase",
+  pascal: "PascalCase",
+  mixed: "Mixed (kept as typed)",
+};
+
+const isUpper = (char: string) =>
+  char !== char.toLowerCase() && char === char.toUpperCase();
+const isLower = (char: string) =>
+  char !== char.toUpperCase() && char === char.toLowerCase();
+
+// Only the first letter changes, so "iOS" stays "IOS" rather than "Ios", as
+// the backend applies it.
+const capitalize = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1);
+
+// Splits on separators and on lower->upper boundaries ("acmeCorp" -> acme, Corp).
+const splitWords = (text: string) =>
+  text
+    .replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+
+export function detectCasePattern(text: string): CasePattern {
+  const letters = [...text].filter((char) => isUpper(char) || isLower(char));
+  if (letters.length === 0) return "mixed";
+  if (letters.every(isLower)) return "lower";
+  if (letters.length > 1 && letters.every(isUpper)) return "upper";
+
+  const words = text.split(/[\s_-]+/).filter(Boolean);
+  const capitalized = (word: string) =>
+    isUpper(word.charAt(0)) && [...word.slice(1)].every((c) => !isUpper(c));
+  if (words.every(capitalized)) return "title";
+  if (
+    capitalized(words[0]) &&
+    words.slice(1).every((w) => !/\p{Lu}/u.test(w))
+  ) {
+    return "sentence";
+  }
+  if (words.length === 1 && /^\p{Ll}+(\p{Lu}\p{Ll}*)+$/u.test(text)) {
+    return "camel";
+  }
+  if (words.length === 1 && /^(\p{Lu}\p{Ll}+){2,}$/u.test(text)) {
+    return "pascal";
+  }
+  return "mixed";
+}
+
+export function applyCasePattern(
+  replacement: string,
+  pattern: CasePattern
+): string {
+  switch (pattern) {
+    case "lower":
+      return replacement.toLowerCase();
+    case "upper":
+      return replacement.toUpperCase();
+    case "title":
+      return replacement.replace(/\S+/g, capitalize);
+    case "sentence":
+      return capitalize(replacement);
+    case "camel":
+      return splitWords(replacement)
+        .map((word, index) =>
+          index === 0 ? word.toLowerCase() : capitalize(word)
+        )
+        .join("");
+    case "pascal":
+      return splitWords(replacement).map(capitalize).join("");
+    default:
+      return replacement;
+  }
+}
+
+// Casing patterns of every occurrence of a rule in a text, in order of first
+// appearance. Used to label changes when the backend does not report them.
+export function matchedCasePatterns(
+  text: string,
+  find: string,
+  options: MatchOptions
+): CasePattern[] {
+  const matcher = buildMatcher(find, options, true);
+  if (!matcher || typeof text !== "string") return [];
+  const patterns = [...foldText(text, options).matchAll(matcher)].map((match) =>
+    detectCasePattern(match[0])
+  );
+  return [...new Set(patterns)];
+}
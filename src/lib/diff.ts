@@ -0,0 +1,212 @@
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+export type DiffLayout = "unified" | "split";
+
+// Words, runs of whitespace and single punctuation marks.
+const TOKEN = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+// Above this many table cells the middle of a change is shown as one deletion
+// and one insertion instead of being diffed.
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Replaced words up to this length are diffed again character by character,
+// so "Contenstack" -> "Contentstack" highlights only the added "t".
+const MAX_REFINE_LENGTH = 80;
+
+const pushPart = (parts: DiffPart[], op: DiffOp, text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.op === op) {
+    last.text += text;
+  } else {
+    parts.push({ op, text });
+  }
+};
+
+// Longest-common-subsequence diff. The common prefix and suffix are trimmed
+// first, since a preview usually changes a few words of a long field.
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, "equal", a.slice(0, start).join(""));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  const width = m + 1;
+  if ((n + 1) * width > MAX_DIFF_CELLS) {
+    pushPart(parts, "delete", midA.join(""));
+    pushPart(parts, "insert", midB.join(""));
+  } else {
+    // lengths[i * width + j]: LCS length of midA[i..] and midB[j..].
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          midA[i] === midB[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * width + j],
+                lengths[i * width + j + 1]
+              );
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, "equal", midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushPart(parts, "delete", midA[i++]);
+      } else {
+        pushPart(parts, "insert", midB[j++]);
+      }
+    }
+    while (i < n) pushPart(parts, "delete", midA[i++]);
+    while (j < m) pushPart(parts, "insert", midB[j++]);
+  }
+  pushPart(parts, "equal", a.slice(endA).join(""));
+  return parts;
+}
+
+function refine(deleted: string, inserted: string): DiffPart[] {
+  const wordLevel: DiffPart[] = [
+    { op: "delete", text: deleted },
+    { op: "insert", text: inserted },
+  ].filter((part) => part.text) as DiffPart[];
+  if (
+    !deleted ||
+    !inserted ||
+    deleted.length > MAX_REFINE_LENGTH ||
+    inserted.length > MAX_REFINE_LENGTH
+  ) {
+    return wordLevel;
+  }
+  const chars = diffTokens([...deleted], [...inserted]);
+  const kept = chars
+    .filter((part) => part.op === "equal")
+    .reduce((sum, part) => sum + part.text.length, 0);
+  // Mostly different words read better as a plain swap.
+  return kept >= 0.6 * Math.max(deleted.length, inserted.length)
+    ? chars
+    : wordLevel;
+}
+
+// Word-level diff of two texts, with every run of changes shown as one
+// deletion followed by one insertion and similar words refined to characters.
+export function diffText(before: string, after: string): DiffPart[] {
+  const words = diffTokens(before.match(TOKEN) || [], after.match(TOKEN) || []);
+  const parts: DiffPart[] = [];
+  let deleted = "";
+  let inserted = "";
+  words.forEach((part, index) => {
+    const between =
+      part.op === "equal" &&
+      /^\s+$/.test(part.text) &&
+      index > 0 &&
+      words[index + 1] &&
+      words[index + 1].op !== "equal";
+    if (part.op === "delete" || between) deleted += part.text;
+    if (part.op === "insert" || between) inserted += part.text;
+    if (part.op === "equal" && !between) {
+      refine(deleted, inserted).forEach(({ op, text }) =>
+        pushPart(parts, op, text)
+      );
+      deleted = "";
+      inserted = "";
+      pushPart(parts, "equal", part.text);
+    }
+  });
+  refine(deleted, inserted).forEach(({ op, text }) =>
+    pushPart(parts, op, text)
+  );
+  return parts;
+}
+
+export interface DiffRow {
+  parts: DiffPart[];
+  changed: boolean;
+}
+
+// Splits a diff into paragraphs. Only line breaks in unchanged text end a
+// row, so the two sides of a side-by-side view stay aligned.
+export function diffRows(parts: DiffPart[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let current: DiffPart[] = [];
+  const finish = () => {
+    rows.push({
+      parts: current,
+      changed: current.some((part) => part.op !== "equal"),
+    });
+    current = [];
+  };
+  for (const part of parts) {
+    if (part.op !== "equal") {
+      current.push(part);
+      continue;
+    }
+    part.text.split("\n").forEach((line, index) => {
+      if (index > 0) finish();
+      if (line) current.push({ op: "equal", text: line });
+    });
+  }
+  finish();
+  return rows;
+}
+
+export interface DiffBlock {
+  collapsed: boolean;
+  rows: DiffRow[];
+}
+
+// Keeps `context` unchanged rows around each changed one and folds longer
+// runs of unchanged rows into collapsed blocks.
+export function collapseRows(rows: DiffRow[], context = 1): DiffBlock[] {
+  const visible = rows.map((_, index) =>
+    rows
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some((row) => row.changed)
+  );
+  // A single folded row would take as much space as the row itself.
+  rows.forEach((_, index) => {
+    if (!visible[index] && visible[index - 1] !== false) {
+      if (visible[index + 1] !== false) visible[index] = true;
+    }
+  });
+  const blocks: DiffBlock[] = [];
+  rows.forEach((row, index) => {
+    const last = blocks[blocks.length - 1];
+    if (last && last.collapsed === !visible[index]) {
+      last.rows.push(row);
+    } else {
+      blocks.push({ collapsed: !visible[index], rows: [row] });
+    }
+  });
+  return blocks;
+}
+
+// The parts shown on one side of a side-by-side diff.
+export function sideParts(
+  parts: DiffPart[],
+  side: "before" | "after"
+): DiffPart[] {
+  const changed = side === "before" ? "delete" : "insert";
+  return parts.filter((part) => part.op === "equal" || part.op === changed);
+}
@@ -0,0 +1,71 @@
+import { format } from "date-fns";
+
+export type PublishStatus = "any" | "published" | "unpublished";
+
+export type DateBound =
+  | "createdAfter"
+  | "createdBefore"
+  | "updatedAfter"
+  | "updatedBefore";
+
+export interface EntryFilters {
+  tags: string[];
+  // Publish status is per environment; ignored until one is picked.
+  environment: string;
+  publishStatus: PublishStatus;
+  dates: Partial<Record<DateBound, Date>>;
+  workflowStage: string;
+  updatedBy: string;
+}
+
+// Values offered by the filter controls, loaded for the selected content types.
+export interface EntryFilterOptions {
+  tags: string[];
+  environments: { uid: string; name: string }[];
+  workflowStages: { uid: string; name: string }[];
+  editors: { uid: string; name: string }[];
+}
+
+export const DEFAULT_ENTRY_FILTERS: EntryFilters = {
+  tags: [],
+  environment: "",
+  publishStatus: "any",
+  dates: {},
+  workflowStage: "",
+  updatedBy: "",
+};
+
+export const EMPTY_FILTER_OPTIONS: EntryFilterOptions = {
+  tags: [],
+  environments: [],
+  workflowStages: [],
+  editors: [],
+};
+
+// Query parameters understood by `/entries`, `/scan` and `/preview`. Dates are
+// sent as calendar days; "before" and "after" are exclusive.
+export function entryFilterParams(filters: EntryFilters): [string, string][] {
+  const params: [string, string][] = filters.tags.map((tag) => ["tags", tag]);
+  if (filters.environment && filters.publishStatus !== "any") {
+    params.push(["environment", filters.environment]);
+    params.push(["publishStatus", filters.publishStatus]);
+  }
+  for (const [bound, date] of Object.entries(filters.dates)) {
+    if (date) params.push([bound, format(date, "yyyy-MM-dd")]);
+  }
+  if (filters.workflowStage) {
+    params.push(["workflowStage", filters.workflowStage]);
+  }
+  if (filters.updatedBy) params.push(["updatedBy", filters.updatedBy]);
+  return params;
+}
+
+export function countEntryFilters(filters: EntryFilters): number {
+  return (
+    (filters.tags.length > 0 ? 1 : 0) +
+    (filters.environment && filters.publishStatus !== "any" ? 1 : 0) +
+    Object.values(filters.dates).filter(Boolean).length +
+    (filters.workflowStage ? 1 : 0) +
+    (filters.updatedBy ? 1 : 0)
+  );
+}
@@ -0,0 +1,109 @@
+// Contentstack UIDs: "blt" followed by 16 hex digits.
+const UID_PATTERN = /^blt[0-9a-f]{16}$/i;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+export interface EntryListItems {
+  uids: string[];
+  urls: string[];
+  // Cells that are neither, e.g. a spreadsheet's header row or a title.
+  ignored: string[];
+}
+
+const SEPARATOR = /[\r\n\t,;]/;
+// Where a comma or semicolon inside a URL ends it: before whitespace, another
+// separator, a quote, the end of the text or the next UID or URL. Otherwise it
+// belongs to the URL, e.g. "?ids=1,2" or a ";jsessionid=" parameter.
+const URL_END = /^[,;](?:[\s,;"]|$|https?:\/\/|blt[0-9a-f]{16}(?![0-9a-z]))/i;
+
+// Splits a list into cells. Quoted cells may contain separators; URLs keep
+// commas and semicolons of their own.
+function listCells(text: string): string[] {
+  const cells: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (SEPARATOR.test(text[i]) || text[i] === " ") {
+      i++;
+    } else if (text[i] === '"') {
+      let cell = "";
+      for (i++; i < text.length; i++) {
+        if (text[i] === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (text[i] === '"') {
+          i++;
+          break;
+        } else {
+          cell += text[i];
+        }
+      }
+      cells.push(cell);
+    } else if (/^https?:\/\//i.test(text.slice(i, i + 8))) {
+      const start = i;
+      while (
+        i < text.length &&
+        !/[\s"]/.test(text[i]) &&
+        !URL_END.test(text.slice(i, i + 20))
+      ) {
+        i++;
+      }
+      cells.push(text.slice(start, i));
+    } else {
+      const start = i;
+      while (i < text.length && !SEPARATOR.test(text[i])) i++;
+      cells.push(text.slice(start, i));
+    }
+  }
+  return cells;
+}
+
+// Reads a pasted list or an uploaded CSV/TXT export: one item per line, cell
+// or comma-separated value. Quotes around cells are dropped and duplicates are
+// kept once.
+export function parseEntryList(text: string): EntryListItems {
+  const cells = listCells(text.replace(/^\uFEFF/, ""))
+    .map((cell) => cell.trim())
+    .filter(Boolean);
+  const items: EntryListItems = { uids: [], urls: [], ignored: [] };
+  for (const cell of new Set(cells)) {
+    if (UID_PATTERN.test(cell)) {
+      const uid = cell.toLowerCase();
+      if (!items.uids.includes(uid)) items.uids.push(uid);
+    } else if (URL_PATTERN.test(cell)) {
+      items.urls.push(cell);
+    } else {
+      items.ignored.push(cell);
+    }
+  }
+  return items;
+}
+
+export interface ResolvedEntry {
+  // The UID or URL as it appeared in the list.
+  input: string;
+  uid: string;
+  title: string;
+  contentTypeUid: string;
+}
+
+export interface EntryListResolution {
+  resolved: ResolvedEntry[];
+  // Entries that exist but belong to a content type that is not selected.
+  otherContentType: ResolvedEntry[];
+  unknown: string[];
+}
+
+export function splitByContentType(
+  resolved: ResolvedEntry[],
+  unknown: string[],
+  contentTypeUids: string[]
+): EntryListResolution {
+  return {
+    resolved: resolved.filter((entry) =>
+      contentTypeUids.includes(entry.contentTypeUid)
+    ),
+    otherContentType: resolved.filter(
+      (entry) => !contentTypeUids.includes(entry.contentTypeUid)
+    ),
+    unknown,
+  };
+}
@@ -0,0 +1,72 @@
+import { inspectPattern } from "@/lib/regex";
+
+export type ExclusionReason = "pattern" | "quote" | "code" | "word";
+
+export interface Exclusions {
+  // Literal text, or a regular expression written as /pattern/. Any
+  // occurrence overlapping a match (e.g. "Acme™", "Acme Corporation Ltd.") is
+  // left unchanged.
+  patterns: string[];
+  protectQuotes: boolean;
+  protectCode: boolean;
+  // Occurrences directly preceded or followed by one of these words.
+  protectedWords: string[];
+}
+
+export const DEFAULT_EXCLUSIONS: Exclusions = {
+  patterns: [],
+  protectQuotes: false,
+  protectCode: false,
+  protectedWords: [],
+};
+
+export const EXCLUSION_REASON_LABELS: Record<ExclusionReason, string> = {
+  pattern: "Exclusion pattern",
+  quote: "Quoted text",
+  code: "Code",
+  word: "Protected word",
+};
+
+const REGEX_LITERAL = /^\/(.+)\/$/;
+
+export function validateExclusionPattern(pattern: string): string | null {
+  const regex = pattern.trim().match(REGEX_LITERAL);
+  if (!regex) return null;
+  const info = inspectPattern(regex[1]);
+  return info.valid ? null : info.error;
+}
+
+const cleanList = (items: string[]) =>
+  items.map((item) => item.trim()).filter(Boolean);
+
+export function countExclusions(exclusions: Exclusions): number {
+  return (
+    cleanList(exclusions.patterns).length +
+    cleanList(exclusions.protectedWords).length +
+    (exclusions.protectQuotes ? 1 : 0) +
+    (exclusions.protectCode ? 1 : 0)
+  );
+}
+
+export function hasExclusionErrors(exclusions: Exclusions): boolean {
+  return exclusions.patterns.some((pattern) =>
+    Boolean(validateExclusionPattern(pattern))
+  );
+}
+
+// Serialized form sent to `/scan` and `/preview` in the `exclusions`
+// parameter; a regex literal is sent as its source with `regex: true`, and any
+// other pattern as-is with `regex: false`.
+export function serializeExclusions(exclusions: Exclusions): string {
+  return JSON.stringify({
+    patterns: cleanList(exclusions.patterns).map((pattern) => {
+      const regex = pattern.match(REGEX_LITERAL);
+      return regex
+        ? { pattern: regex[1], regex: true }
+        : { pattern, regex: false };
+    }),
+    protectQuotes: exclusions.protectQuotes,
+    protectCode: exclusions.protectCode,
+    protectedWords: cleanList(exclusions.protectedWords),
+  });
+}
@@ -0,0 +1,73 @@
+// Token-aware comparison key: case, spacing, hyphens and underscores are
+// ignored, so "Content Stack" and "content-stack" compare as "contentstack".
+export function variantKey(text: string): string {
+  return text.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions and
+// transpositions of adjacent characters ("Contnet") each count as one edit.
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+export function variantDistance(variant: string, term: string): number {
+  return editDistance(variantKey(variant), variantKey(term));
+}
+
+export const describeDistance = (distance: number) =>
+  distance === 0 ? "exact" : `${distance} ${distance === 1 ? "edit" : "edits"}`;
+
+// A term shorter than this would fuzzily match unrelated short words.
+export function minFuzzyLength(maxDistance: number): number {
+  return maxDistance * 2 + 2;
+}
+
+export interface VariantGroup<T> {
+  key: string;
+  ruleId?: string;
+  variant: string;
+  results: T[];
+}
+
+// Groups results by the rule and the exact text each one matched, largest
+// group first. Results without a reported variant are grouped under `fallback`.
+export function groupByVariant<T extends { ruleId?: string; variant?: string }>(
+  results: T[],
+  fallback: (result: T) => string
+): VariantGroup<T>[] {
+  const groups = new Map<string, VariantGroup<T>>();
+  for (const result of results) {
+    const variant = result.variant ?? fallback(result);
+    const key = variantSelectionKey(result.ruleId, variant);
+    if (!groups.has(key)) {
+      groups.set(key, { key, ruleId: result.ruleId, variant, results: [] });
+    }
+    groups.get(key).results.push(result);
+  }
+  return [...groups.values()].sort(
+    (a, b) => b.results.length - a.results.length
+  );
+}
+
+export const variantSelectionKey = (
+  ruleId: string | undefined,
+  variant: string
+) => `${ruleId ?? ""}::${variant}`;
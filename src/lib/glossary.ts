@@ -0,0 +1,356 @@
+import {
+  type MatchOptions,
+  type UnicodeNormalization,
+  DEFAULT_MATCH_OPTIONS,
+  MAX_FUZZY_DISTANCE,
+} from "@/lib/match-options";
+import { type Rule, createRule, validateRule } from "@/lib/rules";
+
+export type GlossaryIssueKind = "malformed" | "duplicate" | "empty-replacement";
+
+export interface GlossaryIssue {
+  // 1-based row (CSV line after the header, or JSON array index + 1).
+  row: number;
+  kind: GlossaryIssueKind;
+  message: string;
+}
+
+export interface GlossaryParseResult {
+  fileName: string;
+  rules: Rule[];
+  issues: GlossaryIssue[];
+}
+
+interface GlossaryRow {
+  row: number;
+  find?: unknown;
+  replace?: unknown;
+  notes?: unknown;
+  options: Partial<MatchOptions>;
+  error?: string;
+}
+
+const COLUMN_ALIASES: Record<string, string> = {
+  find: "find",
+  search: "find",
+  term: "find",
+  source: "find",
+  replace: "replace",
+  replacement: "replace",
+  replacewith: "replace",
+  target: "replace",
+  notes: "notes",
+  note: "notes",
+  comment: "notes",
+  options: "options",
+  flags: "options",
+  regex: "regex",
+  casesensitive: "caseSensitive",
+  matchcase: "caseSensitive",
+  wholeword: "wholeWord",
+  ignorediacritics: "ignoreDiacritics",
+  ignoreaccents: "ignoreDiacritics",
+  normalization: "normalization",
+  preservecase: "preserveCase",
+  keepcase: "preserveCase",
+  fuzzy: "fuzzy",
+  maxdistance: "maxDistance",
+  distance: "maxDistance",
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, "");
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "x"];
+
+const parseBoolean = (value: unknown) =>
+  typeof value === "boolean"
+    ? value
+    : TRUE_VALUES.includes(String(value).trim().toLowerCase());
+
+const parseNormalization = (value: unknown): UnicodeNormalization | null => {
+  const upper = String(value ?? "")
+    .trim()
+    .toUpperCase();
+  if (!upper || upper === "NONE") return "none";
+  return upper === "NFC" || upper === "NFKC" ? upper : null;
+};
+
+const parseDistance = (value: unknown): number | null => {
+  const distance = Number(String(value).trim());
+  return Number.isInteger(distance) &&
+    distance >= 1 &&
+    distance <= MAX_FUZZY_DISTANCE
+    ? distance
+    : null;
+};
+
+const BOOLEAN_OPTIONS = [
+  "regex",
+  "caseSensitive",
+  "wholeWord",
+  "ignoreDiacritics",
+  "preserveCase",
+  "fuzzy",
+] as const;
+
+// "regex|case sensitive|NFC" -> { regex: true, "case sensitive": true, ... }
+const parseFlags = (cell: string): Record<string, unknown> =>
+  Object.fromEntries(
+    cell
+      .split(/[|,;]/)
+      .map((flag) => flag.trim())
+      .filter(Boolean)
+      .map((flag) =>
+        ["nfc", "nfkc", "none"].includes(flag.toLowerCase())
+          ? ["normalization", flag]
+          : [flag, true]
+      )
+  );
+
+// Reads the flags of one row, either from dedicated columns/keys or from a
+// combined "options" cell. Unknown columns are ignored so glossaries can carry
+// extra spreadsheet columns, but unknown flags inside "options" are errors.
+function readOptions(
+  record: Record<string, unknown>,
+  strict = false
+): Partial<MatchOptions> | string {
+  const options: Partial<MatchOptions> = {};
+  for (const [rawKey, value] of Object.entries(record)) {
+    if (value === undefined || value === null || value === "") continue;
+    const key = COLUMN_ALIASES[normalizeKey(rawKey)];
+    if (key === "options" && !strict) {
+      const nested = readOptions(
+        typeof value === "object"
+          ? (value as Record<string, unknown>)
+          : parseFlags(String(value)),
+        true
+      );
+      if (typeof nested === "string") return nested;
+      Object.assign(options, nested);
+    } else if (key === "normalization") {
+      const normalization = parseNormalization(value);
+      if (!normalization) return `Unknown normalization "${value}"`;
+      options.normalization = normalization;
+    } else if (key === "maxDistance") {
+      const distance = parseDistance(value);
+      if (!distance) {
+        return `Edit distance must be between 1 and ${MAX_FUZZY_DISTANCE}`;
+      }
+      options.maxDistance = distance;
+    } else if ((BOOLEAN_OPTIONS as readonly string[]).includes(key)) {
+      options[key as (typeof BOOLEAN_OPTIONS)[number]] = parseBoolean(value);
+    } else if (strict) {
+      return `Unknown option "${rawKey}"`;
+    }
+  }
+  return options;
+}
+
+function toRow(record: Record<string, unknown>, row: number): GlossaryRow {
+  const fields: Record<string, unknown> = {};
+  for (const [rawKey, value] of Object.entries(record)) {
+    const key = COLUMN_ALIASES[normalizeKey(rawKey)];
+    if (key === "find" || key === "replace" || key === "notes") {
+      fields[key] = value;
+    }
+  }
+  const options = readOptions(record);
+  return {
+    row,
+    find: fields.find,
+    replace: fields.replace,
+    notes: fields.notes,
+    options: typeof options === "string" ? {} : options,
+    error: typeof options === "string" ? options : undefined,
+  };
+}
+
+// Minimal RFC 4180 reader: quoted cells, escaped quotes and line breaks
+// inside quotes. The delimiter (comma, semicolon or tab) is taken from the
+// header line, which is how spreadsheet exports differ by locale.
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const headerLine = source.split(/\r?\n/, 1)[0] || "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function csvRows(text: string): GlossaryRow[] | string {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return "The file is empty.";
+  const columns = header.map((column) => column.trim());
+  if (
+    !columns.some((column) => COLUMN_ALIASES[normalizeKey(column)] === "find")
+  ) {
+    return 'The header row needs a "find" column.';
+  }
+
+  const rows: GlossaryRow[] = [];
+  lines.forEach((cells, index) => {
+    if (cells.every((cell) => !cell.trim())) return;
+    const row = index + 1;
+    if (cells.length > columns.length) {
+      rows.push({
+        row,
+        options: {},
+        error: `Expected ${columns.length} columns, found ${cells.length}`,
+      });
+      return;
+    }
+    rows.push(
+      toRow(
+        Object.fromEntries(columns.map((column, i) => [column, cells[i]])),
+        row
+      )
+    );
+  });
+  return rows;
+}
+
+function jsonRows(text: string): GlossaryRow[] | string {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return `Invalid JSON: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+  }
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const record = data as Record<string, unknown>;
+    // Either { "rules": [...] } or a plain { "find": "replace" } map.
+    data = Array.isArray(record.rules)
+      ? record.rules
+      : Object.entries(record).map(([find, replace]) => ({ find, replace }));
+  }
+  if (!Array.isArray(data)) {
+    return "Expected an array of rules or an object of find/replace pairs.";
+  }
+  return data.map((item, index) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? toRow(item as Record<string, unknown>, index + 1)
+      : { row: index + 1, options: {}, error: "Expected an object" }
+  );
+}
+
+export function parseGlossary(
+  fileName: string,
+  text: string
+): GlossaryParseResult | string {
+  const isJson =
+    /\.json$/i.test(fileName) || /^\s*[[{]/.test(text.replace(/^\uFEFF/, ""));
+  const rows = isJson ? jsonRows(text) : csvRows(text);
+  if (typeof rows === "string") return rows;
+
+  const rules: Rule[] = [];
+  const issues: GlossaryIssue[] = [];
+  const seen = new Map<string, number>();
+
+  rows.forEach((row) => {
+    if (row.error) {
+      issues.push({ row: row.row, kind: "malformed", message: row.error });
+      return;
+    }
+    if (typeof row.find !== "string" || !row.find.trim()) {
+      issues.push({
+        row: row.row,
+        kind: "malformed",
+        message: "Missing find term",
+      });
+      return;
+    }
+    if (
+      row.replace !== undefined &&
+      row.replace !== null &&
+      typeof row.replace !== "string"
+    ) {
+      issues.push({
+        row: row.row,
+        kind: "malformed",
+        message: "Replacement must be text",
+      });
+      return;
+    }
+
+    const rule = createRule({
+      find: row.find.trim(),
+      replace: typeof row.replace === "string" ? row.replace : "",
+      options: { ...DEFAULT_MATCH_OPTIONS, ...row.options },
+      notes: typeof row.notes === "string" ? row.notes.trim() : undefined,
+    });
+
+    const { findError, replaceError } = validateRule(rule);
+    if (findError || replaceError) {
+      issues.push({
+        row: row.row,
+        kind: "malformed",
+        message: findError || replaceError,
+      });
+      return;
+    }
+
+    const key = `${
+      rule.options.caseSensitive ? rule.find : rule.find.toLowerCase()
+    }\u0000${JSON.stringify(rule.options)}`;
+    if (seen.has(key)) {
+      issues.push({
+        row: row.row,
+        kind: "duplicate",
+        message: `"${rule.find}" is already defined on row ${seen.get(key)}`,
+      });
+      return;
+    }
+    seen.set(key, row.row);
+
+    if (!rule.replace.trim()) {
+      issues.push({
+        row: row.row,
+        kind: "empty-replacement",
+        message: `"${rule.find}" has no replacement`,
+      });
+    }
+    rules.push(rule);
+  });
+
+  return { fileName, rules, issues };
+}
@@ -0,0 +1,191 @@
+export interface LinkRule {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export type LinkSource = "link" | "html" | "markdown" | "text";
+
+export interface FoundLink {
+  url: string;
+  source: LinkSource;
+}
+
+export interface LinkPair {
+  before: string;
+  after: string;
+  source: LinkSource;
+}
+
+interface UrlPrefix {
+  protocol: string | null;
+  host: string;
+  path: string;
+}
+
+let nextLinkRuleId = 1;
+
+export function createLinkRule(patch: Partial<Omit<LinkRule, "id">> = {}) {
+  return { id: `link-${nextLinkRuleId++}`, from: "", to: "", ...patch };
+}
+
+export function activeLinkRules(rules: LinkRule[]): LinkRule[] {
+  return rules.filter((rule) => rule.from.trim());
+}
+
+// Accepts "old.com", "old.com/blog" or a full "https://old.com/blog/" URL.
+// Without a scheme the prefix matches both http and https.
+export function parsePrefix(input: string): UrlPrefix | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  const hasProtocol = /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed);
+  try {
+    const url = new URL(hasProtocol ? trimmed : `https://${trimmed}`);
+    if (!url.hostname.includes(".") && url.hostname !== "localhost") {
+      return null;
+    }
+    return {
+      protocol: hasProtocol ? url.protocol : null,
+      host: url.host.toLowerCase(),
+      path: url.pathname.replace(/\/+$/, ""),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function validateLinkRule(rule: LinkRule): {
+  fromError: string | null;
+  toError: string | null;
+} {
+  return {
+    fromError:
+      rule.from.trim() && !parsePrefix(rule.from)
+        ? "Enter a host or URL prefix, e.g. old.example.com/blog"
+        : null,
+    toError:
+      rule.from.trim() && !parsePrefix(rule.to)
+        ? "Enter the new host or URL prefix"
+        : null,
+  };
+}
+
+export function hasLinkRuleErrors(rules: LinkRule[]): boolean {
+  return rules.some((rule) => {
+    const { fromError, toError } = validateLinkRule(rule);
+    return Boolean(fromError || toError);
+  });
+}
+
+// Rewrites a URL whose host and path start with a rule's prefix, keeping the
+// rest of the path, the query string and the fragment. The prefix only
+// matches whole path segments, so "/blog" does not match "/blogger".
+export function rewriteUrl(url: string, rules: LinkRule[]): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  for (const rule of activeLinkRules(rules)) {
+    const from = parsePrefix(rule.from);
+    const to = parsePrefix(rule.to);
+    if (!from || !to) continue;
+    if (from.protocol && from.protocol !== parsed.protocol) continue;
+    if (parsed.host.toLowerCase() !== from.host) continue;
+    const path = parsed.pathname;
+    if (from.path && path !== from.path && !path.startsWith(`${from.path}/`)) {
+      continue;
+    }
+    const rest = path.slice(from.path.length);
+    const protocol = to.protocol || parsed.protocol;
+    return `${protocol}//${to.host}${to.path}${rest}${parsed.search}${parsed.hash}`;
+  }
+  return null;
+}
+
+const MARKDOWN_LINK =
+  /\[[^\]]*\]\(\s*<?(https?:\/\/[^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const HTML_HREF = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+const BARE_URL = /https?:\/\/[^\s"'<>()[\]]+/g;
+
+function collect(value: unknown, found: FoundLink[]) {
+  if (typeof value === "string") {
+    const text = value;
+    const spans: [number, number][] = [];
+    const push = (
+      url: string,
+      source: LinkSource,
+      index: number,
+      length: number
+    ) => {
+      found.push({ url: url.replace(/&amp;/g, "&"), source });
+      spans.push([index, index + length]);
+    };
+    for (const match of text.matchAll(HTML_HREF)) {
+      push(match[1] ?? match[2], "html", match.index, match[0].length);
+    }
+    for (const match of text.matchAll(MARKDOWN_LINK)) {
+      push(match[1], "markdown", match.index, match[0].length);
+    }
+    for (const match of text.matchAll(BARE_URL)) {
+      const inside = spans.some(
+        ([start, end]) => match.index >= start && match.index < end
+      );
+      if (!inside) {
+        found.push({ url: match[0].replace(/[.,;:!?]+$/, ""), source: "text" });
+      }
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item) => collect(item, found));
+    return;
+  }
+  if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      // Link fields ({ title, href }) and JSON RTE anchors ({ attrs: { url } }).
+      if ((key === "href" || key === "url") && typeof child === "string") {
+        found.push({ url: child, source: "link" });
+      } else {
+        collect(child, found);
+      }
+    }
+  }
+}
+
+// All URLs in a field value: link fields, JSON RTE anchors, HTML `href`s,
+// Markdown links and bare URLs in text. Serialized JSON is parsed first.
+export function extractUrls(value: unknown): FoundLink[] {
+  let source = value;
+  if (typeof value === "string" && /^\s*[[{]/.test(value)) {
+    try {
+      source = JSON.parse(value);
+    } catch {
+      // Not JSON after all; scan it as text.
+    }
+  }
+  const found: FoundLink[] = [];
+  collect(source, found);
+  return found;
+}
+
+// URLs in a value that the rules would rewrite, with their new form.
+export function plannedRewrites(value: unknown, rules: LinkRule[]): LinkPair[] {
+  return extractUrls(value).flatMap(({ url, source }) => {
+    const after = rewriteUrl(url, rules);
+    return after && after !== url ? [{ before: url, after, source }] : [];
+  });
+}
+
+// Old -> new URL pairs of a previewed change, matched up by position.
+export function linkPairs(before: unknown, after: unknown): LinkPair[] {
+  const oldLinks = extractUrls(before);
+  const newLinks = extractUrls(after);
+  return oldLinks.flatMap((link, index) => {
+    const next = newLinks[index];
+    return next && next.url !== link.url
+      ? [{ before: link.url, after: next.url, source: link.source }]
+      : [];
+  });
+}
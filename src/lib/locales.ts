@@ -0,0 +1,62 @@
+import { type ReferenceParent, mergeParents } from "@/lib/references";
+
+export interface Locale {
+  code: string;
+  name: string;
+  fallbackLocale?: string | null;
+}
+
+export function localeName(code: string, locales: Locale[]): string {
+  return locales.find((locale) => locale.code === code)?.name ?? code;
+}
+
+interface LocalizedPreview<C extends { locale?: string }> {
+  entryUid: string;
+  locale?: string;
+  changes: C[];
+  referencedBy?: ReferenceParent[];
+}
+
+// `/preview` returns one result per entry and locale. They are merged into one
+// result per entry, with the locale moved onto each change, so selections and
+// the accordion stay keyed by entry. An entry referenced from several parents
+// arrives once per parent; its changes are kept once, by `changeKey`, and its
+// parents are merged.
+export function mergeLocalePreviews<
+  C extends { locale?: string },
+  T extends LocalizedPreview<C>
+>(results: T[], changeKey: (change: C) => string): T[] {
+  const byEntry = new Map<string, T>();
+  const keysByEntry = new Map<string, Set<string>>();
+  for (const result of results) {
+    const keys = keysByEntry.get(result.entryUid) ?? new Set<string>();
+    keysByEntry.set(result.entryUid, keys);
+    const changes = result.changes
+      .map((change) =>
+        change.locale || !result.locale
+          ? change
+          : { ...change, locale: result.locale }
+      )
+      .filter((change) => {
+        const key = changeKey(change);
+        if (keys.has(key)) return false;
+        keys.add(key);
+        return true;
+      });
+    const existing = byEntry.get(result.entryUid);
+    byEntry.set(
+      result.entryUid,
+      existing
+        ? {
+            ...existing,
+            changes: [...existing.changes, ...changes],
+            referencedBy: mergeParents(
+              existing.referencedBy,
+              result.referencedBy
+            ),
+          }
+        : { ...result, locale: undefined, changes }
+    );
+  }
+  return [...byEntry.values()];
+}
@@ -0,0 +1,40 @@
+export type UnicodeNormalization = "none" | "NFC" | "NFKC";
+
+export interface MatchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  ignoreDiacritics: boolean;
+  normalization: UnicodeNormalization;
+  // Replacements follow the casing of each match (ACME -> GLOBEX).
+  preserveCase: boolean;
+  // Also matches misspellings within `maxDistance` edits of the term.
+  fuzzy: boolean;
+  maxDistance: number;
+}
+
+export const MAX_FUZZY_DISTANCE = 3;
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  regex: false,
+  caseSensitive: false,
+  wholeWord: false,
+  ignoreDiacritics: false,
+  normalization: "none",
+  preserveCase: false,
+  fuzzy: false,
+  maxDistance: 1,
+};
+
+// Human-readable labels for the options that are switched on.
+export function describeMatchOptions(options: MatchOptions): string[] {
+  const labels: string[] = [];
+  if (options.regex) labels.push("Regex");
+  if (options.caseSensitive) labels.push("Case sensitive");
+  if (options.wholeWord) labels.push("Whole word");
+  if (options.ignoreDiacritics) labels.push("Ignore accents");
+  if (options.normalization !== "none") labels.push(options.normalization);
+  if (options.preserveCase) labels.push("Preserve case");
+  if (options.fuzzy) labels.push(`Fuzzy ≤${options.maxDistance}`);
+  return labels;
+}
@@ -0,0 +1,47 @@
+import type { MatchOptions } from "@/lib/match-options";
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Applies the normalization and accent folding selected in the options, so
+// both the pattern and the searched text are compared in the same form.
+export function foldText(text: string, options: MatchOptions): string {
+  let folded =
+    options.normalization === "none"
+      ? text
+      : text.normalize(options.normalization);
+  if (options.ignoreDiacritics) {
+    folded = folded.normalize("NFD").replace(/\p{M}/gu, "");
+  }
+  return folded;
+}
+
+// Client-side approximation of the backend matcher. Used to reason about rules
+// before they are sent (conflict detection, previews of the replacement); the
+// backend remains the source of truth for what actually matches.
+export function buildMatcher(
+  find: string,
+  options: MatchOptions,
+  global = false
+): RegExp | null {
+  if (!find) return null;
+  const source = options.regex ? find : escapeRegExp(foldText(find, options));
+  const bounded = options.wholeWord ? `\\b(?:${source})\\b` : source;
+  const flags = `${options.caseSensitive ? "" : "i"}${global ? "g" : ""}`;
+  try {
+    return new RegExp(bounded, flags);
+  } catch {
+    return null;
+  }
+}
+
+export function matchesText(
+  matcher: RegExp | null,
+  text: string,
+  options: MatchOptions
+): boolean {
+  if (!matcher || !text) return false;
+  matcher.lastIndex = 0;
+  return matcher.test(foldText(text, options));
+}
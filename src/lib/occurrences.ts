@@ -0,0 +1,245 @@
+import { diffText } from "@/lib/diff";
+import type { MatchOptions } from "@/lib/match-options";
+import { buildMatcher, foldText } from "@/lib/matcher";
+
+export interface Occurrence {
+  // Offsets into the field's original string value; `end` is exclusive.
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+// The occurrences of a change that can be approved one by one. They are only
+// trusted when they point inside a string value and do not overlap; otherwise
+// the change is approved as a whole field.
+export function fieldOccurrences(change: {
+  before: unknown;
+  occurrences?: Occurrence[];
+}): Occurrence[] | null {
+  const { before, occurrences } = change;
+  if (typeof before !== "string" || !occurrences?.length) return null;
+  const sorted = [...occurrences].sort((a, b) => a.start - b.start);
+  const valid = sorted.every(
+    (occurrence, index) =>
+      occurrence.start >= 0 &&
+      occurrence.end >= occurrence.start &&
+      occurrence.end <= before.length &&
+      (index === 0 || occurrence.start >= sorted[index - 1].end)
+  );
+  return valid ? occurrences : null;
+}
+
+// Rebuilds a value with only the approved occurrences replaced; the text
+// between them is kept exactly as it was.
+export function applyOccurrences(
+  value: string,
+  occurrences: Occurrence[],
+  isApproved: (index: number) => boolean
+): string {
+  const ordered = occurrences
+    .map((occurrence, index) => ({ ...occurrence, index }))
+    .sort((a, b) => a.start - b.start);
+  let result = "";
+  let cursor = 0;
+  for (const occurrence of ordered) {
+    if (!isApproved(occurrence.index)) continue;
+    result += value.slice(cursor, occurrence.start) + occurrence.replacement;
+    cursor = occurrence.end;
+  }
+  return result + value.slice(cursor);
+}
+
+// The edits that turn `before` into `after`, for changes that arrive without
+// occurrences or whose value was rewritten by hand.
+export function occurrencesBetween(
+  before: string,
+  after: string
+): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  let cursor = 0;
+  let pending: Occurrence | null = null;
+  for (const part of diffText(before, after)) {
+    if (part.op === "equal") {
+      if (pending) occurrences.push(pending);
+      pending = null;
+      cursor += part.text.length;
+      continue;
+    }
+    pending ??= { start: cursor, end: cursor, replacement: "" };
+    if (part.op === "delete") {
+      cursor += part.text.length;
+      pending.end = cursor;
+    } else {
+      pending.replacement += part.text;
+    }
+  }
+  if (pending) occurrences.push(pending);
+  return occurrences;
+}
+
+// Applies the approved occurrences of several changes to the same value, so
+// rules that touch one field are written together. Returns null when two of
+// them rewrite the same text differently.
+export function combineOccurrences(
+  value: string,
+  occurrences: Occurrence[]
+): string | null {
+  const ordered = [...occurrences].sort(
+    (a, b) => a.start - b.start || a.end - b.end
+  );
+  const distinct: Occurrence[] = [];
+  for (const occurrence of ordered) {
+    const last = distinct[distinct.length - 1];
+    if (
+      last &&
+      last.start === occurrence.start &&
+      last.end === occurrence.end &&
+      last.replacement === occurrence.replacement
+    ) {
+      continue;
+    }
+    if (
+      last &&
+      (occurrence.start < last.end || occurrence.start === last.start)
+    ) {
+      return null;
+    }
+    distinct.push(occurrence);
+  }
+  return applyOccurrences(value, distinct, () => true);
+}
+
+interface FieldChange {
+  field: string;
+  path?: string;
+  locale?: string;
+  before: unknown;
+}
+
+export interface FieldGroups<T> {
+  // Changes written together, one write per group.
+  groups: T[][];
+  // Changes to one location that started from different values, e.g. when
+  // `path` is missing; they cannot be combined safely.
+  conflicts: T[][];
+}
+
+// Groups changes by the value they write, so several rules matching one field
+// are sent to `/apply` as a single write.
+export function groupFieldChanges<T extends FieldChange>(
+  changes: T[]
+): FieldGroups<T> {
+  const byLocation = new Map<string, T[]>();
+  for (const change of changes) {
+    const key = `${change.locale ?? ""}::${change.path || change.field}`;
+    byLocation.set(key, [...(byLocation.get(key) ?? []), change]);
+  }
+  const result: FieldGroups<T> = { groups: [], conflicts: [] };
+  for (const group of byLocation.values()) {
+    const before = JSON.stringify(group[0].before);
+    const same = group.every(
+      (change) => JSON.stringify(change.before) === before
+    );
+    (same ? result.groups : result.conflicts).push(group);
+  }
+  return result;
+}
+
+export type Span = Pick<Occurrence, "start" | "end">;
+
+// Where a rule matches in a text, as offsets into the text itself. Each code
+// point is folded separately so matches in the folded form map back.
+export function locateMatches(
+  text: string,
+  find: string,
+  options: MatchOptions
+): Span[] {
+  const matcher = buildMatcher(find, options, true);
+  if (!matcher || !text) return [];
+  let folded = "";
+  const origin: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const foldedChar = foldText(char, options);
+    for (let i = 0; i < foldedChar.length; i++) origin.push(index);
+    folded += foldedChar;
+    index += char.length;
+  }
+  origin.push(text.length);
+  return [...folded.matchAll(matcher)]
+    .filter((match) => match[0])
+    .map((match) => ({
+      start: origin[match.index],
+      end: origin[match.index + match[0].length],
+    }));
+}
+
+// Widens a span by up to `radius` characters on each side, stopping at a word
+// boundary where possible.
+function contextWindow(value: string, span: Span, radius: number) {
+  let from = Math.max(0, span.start - radius);
+  let to = Math.min(value.length, span.end + radius);
+  if (from > 0) {
+    const space = value.indexOf(" ", from);
+    if (space !== -1 && space < span.start) from = space + 1;
+  }
+  if (to < value.length) {
+    const space = value.lastIndexOf(" ", to);
+    if (space >= span.end) to = space;
+  }
+  return { from, to };
+}
+
+export interface SnippetWindow {
+  from: number;
+  to: number;
+  spans: Span[];
+}
+
+// Context windows around each match; windows that touch are merged so nearby
+// matches share one snippet.
+export function snippetWindows(
+  value: string,
+  spans: Span[],
+  radius: number
+): SnippetWindow[] {
+  const windows: SnippetWindow[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const { from, to } = contextWindow(value, span, radius);
+    const last = windows[windows.length - 1];
+    if (last && from <= last.to) {
+      last.to = Math.max(last.to, to);
+      last.spans.push(span);
+    } else {
+      windows.push({ from, to, spans: [span] });
+    }
+  }
+  return windows;
+}
+
+export interface OccurrenceSnippet {
+  before: string;
+  match: string;
+  after: string;
+  // Whether text was cut off before or after the snippet.
+  clippedStart: boolean;
+  clippedEnd: boolean;
+}
+
+// The matched text with up to `radius` characters on each side, cut at word
+// boundaries where possible and with whitespace collapsed.
+export function occurrenceSnippet(
+  value: string,
+  occurrence: Occurrence,
+  radius = 40
+): OccurrenceSnippet {
+  const { from, to } = contextWindow(value, occurrence, radius);
+  const collapse = (text: string) => text.replace(/\s+/g, " ");
+  return {
+    before: collapse(value.slice(from, occurrence.start)),
+    match: value.slice(occurrence.start, occurrence.end),
+    after: collapse(value.slice(occurrence.end, to)),
+    clippedStart: from > 0,
+    clippedEnd: to < value.length,
+  };
+}
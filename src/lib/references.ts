@@ -0,0 +1,62 @@
+// An entry that links to a referenced entry, and the reference field it
+// links through.
+export interface ReferenceParent {
+  entryUid: string;
+  title: string;
+  field: string;
+}
+
+export const MAX_REFERENCE_DEPTH = 3;
+
+interface ReferencedValue {
+  entryUid: string;
+  field: string;
+  path?: string;
+  ruleId?: string;
+  locale?: string;
+  variant?: string;
+  referencedBy?: ReferenceParent[];
+}
+
+const parentKey = (parent: ReferenceParent) =>
+  `${parent.entryUid}::${parent.field}`;
+
+export function mergeParents(
+  a: ReferenceParent[] = [],
+  b: ReferenceParent[] = []
+): ReferenceParent[] {
+  const seen = new Set(a.map(parentKey));
+  return [...a, ...b.filter((parent) => !seen.has(parentKey(parent)))];
+}
+
+// An entry referenced from several parents (a shared author, a CTA used on
+// many pages) is reported once per match, listing every parent. Matches in
+// other locales or of other fuzzy variants stay separate.
+export function dedupeReferencedResults<T extends ReferencedValue>(
+  results: T[]
+): T[] {
+  const byKey = new Map<string, T>();
+  for (const result of results) {
+    const key = [
+      result.entryUid,
+      result.path || result.field,
+      result.ruleId ?? "",
+      result.locale ?? "",
+      result.variant ?? "",
+    ].join("::");
+    const existing = byKey.get(key);
+    byKey.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            referencedBy: mergeParents(
+              existing.referencedBy,
+              result.referencedBy
+            ),
+          }
+        : result
+    );
+  }
+  return [...byKey.values()];
+}
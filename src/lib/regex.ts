@@ -0,0 +1,65 @@
+export interface PatternInfo {
+  valid: boolean;
+  error?: string;
+  groupCount: number;
+  groupNames: string[];
+}
+
+// Compiles the pattern the same way the backend will, so syntax errors are
+// caught before a request goes out. Capture groups are counted by matching an
+// always-empty alternative against the empty string.
+export function inspectPattern(pattern: string): PatternInfo {
+  try {
+    new RegExp(pattern);
+    const match = new RegExp(`${pattern}|`).exec("");
+    return {
+      valid: true,
+      groupCount: match ? match.length - 1 : 0,
+      groupNames: Object.keys(match?.groups || {}),
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : String(error),
+      groupCount: 0,
+      groupNames: [],
+    };
+  }
+}
+
+const GROUP_REFERENCE = /\$(?:(\d{1,2})|<([^>]*)>|\$)/g;
+
+// Returns the `$n` / `$<name>` references in a replacement string that do not
+// point at a capture group of the pattern.
+export function findInvalidGroupReferences(
+  replacement: string,
+  info: PatternInfo
+): string[] {
+  const invalid: string[] = [];
+  for (const match of replacement.matchAll(GROUP_REFERENCE)) {
+    const [reference, index, name] = match;
+    if (index !== undefined) {
+      // Like String.prototype.replace, fall back to a single-digit reference
+      // when a two-digit one does not exist ("$10" with one group is "$1" + "0").
+      const groupIndex =
+        Number(index) <= info.groupCount ? Number(index) : Number(index[0]);
+      if (groupIndex === 0 || groupIndex > info.groupCount) {
+        invalid.push(reference);
+      }
+    } else if (name !== undefined && !info.groupNames.includes(name)) {
+      invalid.push(reference);
+    }
+  }
+  return invalid;
+}
+
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/;
+
+// A pattern typed as a literal, "/legacy/i", split into source and flags.
+// Null for text that is not written as a literal.
+export function parseRegexLiteral(
+  text: string
+): { source: string; flags: string } | null {
+  const match = text.match(REGEX_LITERAL);
+  return match ? { source: match[1], flags: match[2] } : null;
+}
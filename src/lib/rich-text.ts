@@ -0,0 +1,145 @@
+export type RichTextFormat = "plain" | "html" | "json";
+
+interface JsonRteNode {
+  type?: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  children?: JsonRteNode[];
+  [mark: string]: unknown;
+}
+
+const HTML_TAG = /<\/?([a-zA-Z][\w:-]*)\b[^<>]*\/?>/g;
+
+function asJsonRte(value: unknown): JsonRteNode | null {
+  let node = value;
+  if (typeof value === "string") {
+    if (!/^\s*\{/.test(value)) return null;
+    try {
+      node = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return node &&
+    typeof node === "object" &&
+    (node as JsonRteNode).type === "doc"
+    ? (node as JsonRteNode)
+    : null;
+}
+
+// JSON RTE values arrive either as objects or serialized; HTML RTE values are
+// strings containing at least one tag.
+export function detectRichTextFormat(value: unknown): RichTextFormat {
+  if (asJsonRte(value)) return "json";
+  if (typeof value === "string" && new RegExp(HTML_TAG.source).test(value)) {
+    return "html";
+  }
+  return "plain";
+}
+
+const decodeEntities = (text: string) =>
+  new DOMParser().parseFromString(`<!doctype html><body>${text}`, "text/html")
+    .body.textContent || "";
+
+const jsonText = (node: JsonRteNode): string =>
+  typeof node.text === "string"
+    ? node.text
+    : (node.children || []).map(jsonText).join(
+        // Block-level children read as separate lines.
+        node.type === "doc" ? "\n" : ""
+      );
+
+// Readable text of a field value, for display in scan and preview results.
+export function richTextToPlain(value: unknown): string {
+  const json = asJsonRte(value);
+  if (json) return jsonText(json);
+  if (typeof value !== "string") return JSON.stringify(value);
+  if (detectRichTextFormat(value) === "plain") return value;
+  return decodeEntities(
+    value
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|h[1-6]|blockquote|tr)>/gi, "$&\n")
+  ).trim();
+}
+
+export function stringifyValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+const HTML_LINK_TARGET = /(\shref\s*=\s*)(?:"[^"]*"|'[^']*'|[^\s>]+)/gi;
+
+// Every tag with its attributes, in document order. A markup-safe change may
+// only alter the text between these tokens, and the link targets when
+// `ignoreLinks` is set.
+const htmlSkeleton = (html: string, ignoreLinks = false) =>
+  (html.match(HTML_TAG) || []).map((tag) =>
+    ignoreLinks ? tag.replace(HTML_LINK_TARGET, "$1") : tag
+  );
+
+// "<" outside a tag means a tag was split or text was inserted unescaped.
+const strayBrackets = (html: string) =>
+  (html.replace(HTML_TAG, "").match(/</g) || []).length;
+
+function jsonSkeleton(
+  node: JsonRteNode,
+  ignoreLinks = false,
+  out: string[] = []
+): string[] | null {
+  if (typeof node.text === "string") {
+    // Marks such as bold or italic are formatting, not text.
+    const { text: _text, ...marks } = node;
+    out.push(`#text ${JSON.stringify(marks)}`);
+    return out;
+  }
+  if (typeof node.type !== "string" || !Array.isArray(node.children)) {
+    return null;
+  }
+  const attrs = { ...node.attrs };
+  if (ignoreLinks) {
+    delete attrs.url;
+    delete attrs.href;
+  }
+  out.push(`<${node.type} ${JSON.stringify(attrs)}>`);
+  for (const child of node.children) {
+    if (!child || typeof child !== "object") return null;
+    if (!jsonSkeleton(child, ignoreLinks, out)) return null;
+  }
+  out.push(`</${node.type}>`);
+  return out;
+}
+
+// Returns why a rich text change would damage the document, or null when only
+// text content changed. Plain text values are always accepted. With
+// `ignoreLinks`, rewritten `href`s and JSON RTE link `url`s are accepted too.
+export function checkRichTextChange(
+  before: unknown,
+  after: unknown,
+  { ignoreLinks = false }: { ignoreLinks?: boolean } = {}
+): string | null {
+  const format = detectRichTextFormat(before);
+  if (format === "plain") return null;
+
+  if (format === "json") {
+    const afterDoc = asJsonRte(after);
+    if (!afterDoc) return "The result is not a valid JSON RTE document.";
+    const beforeSkeleton = jsonSkeleton(asJsonRte(before), ignoreLinks);
+    const afterSkeleton = jsonSkeleton(afterDoc, ignoreLinks);
+    if (!afterSkeleton) return "The result contains malformed JSON RTE nodes.";
+    if (beforeSkeleton?.join("") !== afterSkeleton.join("")) {
+      return "The replacement changed JSON RTE nodes, attributes or marks.";
+    }
+    return null;
+  }
+
+  if (typeof after !== "string") return "The result is not an HTML string.";
+  if (strayBrackets(after) > strayBrackets(before as string)) {
+    return "The result contains broken or unescaped markup.";
+  }
+  if (
+    htmlSkeleton(before as string, ignoreLinks).join("") !==
+    htmlSkeleton(after, ignoreLinks).join("")
+  ) {
+    return "The replacement changed HTML tags or attributes.";
+  }
+  return null;
+}
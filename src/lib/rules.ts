@@ -0,0 +1,171 @@
+import {
+  type MatchOptions,
+  DEFAULT_MATCH_OPTIONS,
+  describeMatchOptions,
+} from "@/lib/match-options";
+import { buildMatcher, matchesText } from "@/lib/matcher";
+import { findInvalidGroupReferences, inspectPattern } from "@/lib/regex";
+import { minFuzzyLength, variantKey } from "@/lib/fuzzy";
+
+export interface Rule {
+  id: string;
+  find: string;
+  replace: string;
+  options: MatchOptions;
+  notes?: string;
+  // Replacement text for specific locales, keyed by locale code. Locales
+  // without an entry use `replace`.
+  localeReplacements?: Record<string, string>;
+}
+
+export interface RuleValidation {
+  findError: string | null;
+  replaceError: string | null;
+}
+
+export type RuleConflictKind = "duplicate" | "overlap" | "chain";
+
+export interface RuleConflict {
+  kind: RuleConflictKind;
+  ruleIds: [string, string];
+  message: string;
+}
+
+let nextRuleId = 1;
+
+export function createRule(patch: Partial<Omit<Rule, "id">> = {}): Rule {
+  return {
+    id: `rule-${nextRuleId++}`,
+    find: "",
+    replace: "",
+    options: DEFAULT_MATCH_OPTIONS,
+    ...patch,
+  };
+}
+
+// Rules with an empty Find are blank rows in the table and are never sent.
+export function activeRules(rules: Rule[]): Rule[] {
+  return rules.filter((rule) => rule.find.trim());
+}
+
+export function ruleLabel(rule: Rule, rules: Rule[]): string {
+  return `#${rules.indexOf(rule) + 1} ${rule.find} → ${rule.replace || "∅"}`;
+}
+
+export function validateRule(rule: Rule): RuleValidation {
+  // The rule editor never turns both on; imported glossaries can.
+  if (rule.options.fuzzy && rule.options.regex) {
+    return {
+      findError: "A rule can use regex or fuzzy matching, not both",
+      replaceError: null,
+    };
+  }
+  if (rule.options.fuzzy && rule.find) {
+    const minLength = minFuzzyLength(rule.options.maxDistance);
+    return {
+      findError:
+        variantKey(rule.find).length < minLength
+          ? `Fuzzy terms need at least ${minLength} letters at distance ${rule.options.maxDistance}`
+          : null,
+      replaceError: null,
+    };
+  }
+  if (!rule.options.regex || !rule.find) {
+    return { findError: null, replaceError: null };
+  }
+  const info = inspectPattern(rule.find);
+  if (!info.valid) return { findError: info.error, replaceError: null };
+  const invalidReferences = findInvalidGroupReferences(rule.replace, info);
+  return {
+    findError: null,
+    replaceError:
+      invalidReferences.length > 0
+        ? `No capture group for ${invalidReferences.join(", ")}`
+        : null,
+  };
+}
+
+export function hasRuleErrors(rules: Rule[]): boolean {
+  return rules.some((rule) => {
+    const { findError, replaceError } = validateRule(rule);
+    return Boolean(findError || replaceError);
+  });
+}
+
+const sameOptions = (a: MatchOptions, b: MatchOptions) =>
+  describeMatchOptions(a).join() === describeMatchOptions(b).join();
+
+// Rules run together in one job, so a rule whose output is matched by another
+// rule (or two rules that claim the same text) makes the result depend on the
+// order the backend applies them in. These are reported, not blocked.
+export function detectRuleConflicts(rules: Rule[]): RuleConflict[] {
+  const conflicts: RuleConflict[] = [];
+  const candidates = activeRules(rules).filter(
+    (rule) => !validateRule(rule).findError
+  );
+  const number = (rule: Rule) => `#${rules.indexOf(rule) + 1}`;
+
+  candidates.forEach((a, i) => {
+    const matcher = buildMatcher(a.find, a.options);
+    candidates.forEach((b, j) => {
+      if (i === j) return;
+
+      const sameFind = a.options.caseSensitive
+        ? a.find === b.find
+        : a.find.toLowerCase() === b.find.toLowerCase();
+      if (sameFind && sameOptions(a.options, b.options)) {
+        if (i < j) {
+          conflicts.push({
+            kind: "duplicate",
+            ruleIds: [a.id, b.id],
+            message: `Rules ${number(a)} and ${number(b)} find the same text.`,
+          });
+        }
+        return;
+      }
+
+      if (!b.options.regex && matchesText(matcher, b.find, a.options)) {
+        conflicts.push({
+          kind: "overlap",
+          ruleIds: [a.id, b.id],
+          message: `Rule ${number(a)} also matches text found by rule ${number(
+            b
+          )} ("${b.find}").`,
+        });
+      }
+
+      if (matchesText(matcher, b.replace, a.options)) {
+        conflicts.push({
+          kind: "chain",
+          ruleIds: [b.id, a.id],
+          message: `The output of rule ${number(b)} ("${
+            b.replace
+          }") is matched again by rule ${number(a)}.`,
+        });
+      }
+    });
+  });
+
+  return conflicts;
+}
+
+// Serialized form sent to `/scan` and `/preview` in the `rules` parameter.
+export function serializeRules(rules: Rule[], withReplacement: boolean) {
+  return JSON.stringify(
+    activeRules(rules).map((rule) => ({
+      id: rule.id,
+      find: rule.find,
+      ...(withReplacement
+        ? {
+            replace: rule.replace,
+            localeReplacements: Object.fromEntries(
+              Object.entries(rule.localeReplacements ?? {}).filter(([, text]) =>
+                text.trim()
+              )
+            ),
+          }
+        : {}),
+      ...rule.options,
+    }))
+  );
+}
@@ -0,0 +1,101 @@
+// Subset of the Contentstack content type schema needed to pick fields.
+export interface SchemaField {
+  uid: string;
+  display_name: string;
+  data_type: string;
+  multiple?: boolean;
+  schema?: SchemaField[];
+  blocks?: { uid: string; title: string; schema?: SchemaField[] }[];
+  field_metadata?: { allow_rich_text?: boolean; markdown?: boolean };
+}
+
+export interface FieldNode {
+  path: string;
+  label: string;
+  dataType: string;
+  children: FieldNode[];
+}
+
+// Data types whose values can contain searchable text.
+const SEARCHABLE_TYPES = ["text", "json", "link"];
+
+export function buildFieldTree(
+  schema: SchemaField[],
+  parentPath = ""
+): FieldNode[] {
+  const nodes: FieldNode[] = [];
+  for (const field of schema || []) {
+    const path = parentPath ? `${parentPath}.${field.uid}` : field.uid;
+    if (field.data_type === "blocks") {
+      const children = (field.blocks || [])
+        .map((block) => ({
+          path: `${path}.${block.uid}`,
+          label: block.title,
+          dataType: "block",
+          children: buildFieldTree(block.schema, `${path}.${block.uid}`),
+        }))
+        .filter((block) => block.children.length > 0);
+      if (children.length > 0) {
+        nodes.push({
+          path,
+          label: field.display_name,
+          dataType: "blocks",
+          children,
+        });
+      }
+    } else if (field.schema) {
+      // Groups and global fields nest a schema of their own.
+      const children = buildFieldTree(field.schema, path);
+      if (children.length > 0) {
+        nodes.push({
+          path,
+          label: field.display_name,
+          dataType: field.data_type,
+          children,
+        });
+      }
+    } else if (SEARCHABLE_TYPES.includes(field.data_type)) {
+      nodes.push({
+        path,
+        label: field.display_name,
+        dataType: field.data_type,
+        children: [],
+      });
+    }
+  }
+  return nodes;
+}
+
+// Paths of the selectable (leaf) fields below the given nodes.
+export function leafPaths(nodes: FieldNode[]): string[] {
+  return nodes.flatMap((node) =>
+    node.children.length > 0 ? leafPaths(node.children) : [node.path]
+  );
+}
+
+// "sections[2].hero.title" -> [{ uid: "sections", index: 2 }, ...]
+const PATH_SEGMENT = /([^.[\]]+)((?:\[\d+\])*)/g;
+
+function parseJsonPath(path: string) {
+  return [...path.matchAll(PATH_SEGMENT)].map((match) => ({
+    uid: match[1],
+    indices: [...match[2].matchAll(/\d+/g)].map(Number),
+  }));
+}
+
+// Human-readable location of a JSON path, using the display names of the
+// schema and 1-based item numbers: ["Sections #3", "Hero", "Title"]. Segments
+// the schema does not know are shown as their uid.
+export function breadcrumbForPath(path: string, nodes: FieldNode[]): string[] {
+  let level = nodes;
+  let current = "";
+  return parseJsonPath(path).map(({ uid, indices }) => {
+    current = current ? `${current}.${uid}` : uid;
+    const node = level.find((candidate) => candidate.path === current);
+    level = node?.children ?? [];
+    const label = node?.label ?? uid;
+    return indices.length > 0
+      ? `${label} ${indices.map((index) => `#${index + 1}`).join(" ")}`
+      : label;
+  });
+}
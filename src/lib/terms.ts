@@ -0,0 +1,185 @@
+import {
+  findInvalidGroupReferences,
+  inspectPattern,
+  parseRegexLiteral,
+} from "@/lib/regex";
+
+export type TermAction = "rename" | "merge" | "remove";
+
+export interface TermRule {
+  id: string;
+  // A term name, a name with `*` wildcards ("legacy-*") or a regular
+  // expression written as /pattern/flags.
+  find: string;
+  // Otherwise matching ignores case, as does a regex with the `i` flag.
+  caseSensitive: boolean;
+  action: TermAction;
+  // New name for "rename" (may use $1 with a regex), the surviving term for
+  // "merge"; unused for "remove".
+  to: string;
+}
+
+// Entry tags; any other term source is the uid of a taxonomy.
+export const TAGS_SOURCE = "tags";
+
+export interface Taxonomy {
+  uid: string;
+  name: string;
+}
+
+export const TERM_ACTION_LABELS: Record<TermAction, string> = {
+  rename: "Rename to",
+  merge: "Merge into",
+  remove: "Remove",
+};
+
+let nextTermRuleId = 1;
+
+export function createTermRule(
+  patch: Partial<Omit<TermRule, "id">> = {}
+): TermRule {
+  return {
+    id: `term-${nextTermRuleId++}`,
+    find: "",
+    caseSensitive: false,
+    action: "rename",
+    to: "",
+    ...patch,
+  };
+}
+
+export function activeTermRules(rules: TermRule[]): TermRule[] {
+  return rules.filter((rule) => rule.find.trim());
+}
+
+// Flags a term regex may carry; `g` and `y` make no sense for whole terms.
+const TERM_FLAGS = /^[imsu]*$/;
+
+// The regular expression a rule's `find` stands for. Names and wildcard
+// patterns must match the whole term.
+export function termPattern(rule: Pick<TermRule, "find" | "caseSensitive">): {
+  source: string;
+  flags: string;
+} {
+  const trimmed = rule.find.trim();
+  const regex = parseRegexLiteral(trimmed);
+  const caseFlag = rule.caseSensitive ? "" : "i";
+  if (regex) {
+    return {
+      source: regex.source,
+      flags: regex.flags.includes("i") ? regex.flags : regex.flags + caseFlag,
+    };
+  }
+  const parts = trimmed
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return { source: `^${parts.join(".*")}$`, flags: caseFlag };
+}
+
+export function validateTermRule(rule: TermRule): {
+  findError: string | null;
+  toError: string | null;
+} {
+  if (!rule.find.trim()) return { findError: null, toError: null };
+  const { source, flags } = termPattern(rule);
+  if (!TERM_FLAGS.test(flags) || new Set(flags).size !== flags.length) {
+    return {
+      findError: "Use each of the i, m, s and u flags at most once",
+      toError: null,
+    };
+  }
+  const info = inspectPattern(source);
+  if (!info.valid) return { findError: info.error, toError: null };
+  if (rule.action === "remove") return { findError: null, toError: null };
+  if (!rule.to.trim()) {
+    return {
+      findError: null,
+      toError:
+        rule.action === "merge"
+          ? "Enter the term to merge into"
+          : "Enter the new term name",
+    };
+  }
+  const invalid = findInvalidGroupReferences(rule.to, info);
+  return {
+    findError: null,
+    toError:
+      invalid.length > 0
+        ? `No capture group for ${invalid.join(", ")} in the pattern`
+        : null,
+  };
+}
+
+export function hasTermRuleErrors(rules: TermRule[]): boolean {
+  return rules.some((rule) => {
+    const { findError, toError } = validateTermRule(rule);
+    return Boolean(findError || toError);
+  });
+}
+
+// Serialized form sent to `/scan` and `/preview` in the `termRules`
+// parameter; every pattern is sent as a regular expression with its flags.
+export function serializeTermRules(rules: TermRule[]): string {
+  return JSON.stringify(
+    activeTermRules(rules).map((rule) => {
+      const { source, flags } = termPattern(rule);
+      return {
+        id: rule.id,
+        action: rule.action,
+        pattern: source,
+        flags,
+        ...(rule.action === "remove" ? {} : { to: rule.to.trim() }),
+      };
+    })
+  );
+}
+
+// What the first matching rule does to a term: its new name, or null when it
+// is removed. Undefined when no rule matches.
+export function planTermChange(
+  term: string,
+  rules: TermRule[]
+): { ruleId: string; to: string | null } | undefined {
+  for (const rule of activeTermRules(rules)) {
+    const { findError } = validateTermRule(rule);
+    if (findError) continue;
+    const { source, flags } = termPattern(rule);
+    const pattern = new RegExp(source, flags);
+    if (!pattern.test(term)) continue;
+    if (rule.action === "remove") return { ruleId: rule.id, to: null };
+    return {
+      ruleId: rule.id,
+      to:
+        rule.action === "merge"
+          ? rule.to.trim()
+          : term.replace(pattern, rule.to.trim()),
+    };
+  }
+  return undefined;
+}
+
+export interface TermChangeSummary {
+  from: string;
+  // Null when the term is removed.
+  to: string | null;
+  entries: number;
+}
+
+// How many entries each term change affects, most affected first.
+export function summarizeTermChanges(
+  changes: { entryUid: string; from: string; to: string | null }[]
+): TermChangeSummary[] {
+  const groups = new Map<string, { from: string; to: string | null }>();
+  const entries = new Map<string, Set<string>>();
+  for (const change of changes) {
+    const key = JSON.stringify([change.from, change.to]);
+    if (!groups.has(key)) {
+      groups.set(key, { from: change.from, to: change.to });
+      entries.set(key, new Set());
+    }
+    entries.get(key).add(change.entryUid);
+  }
+  return [...groups.entries()]
+    .map(([key, change]) => ({ ...change, entries: entries.get(key).size }))
+    .sort((a, b) => b.entries - a.entries);
+}